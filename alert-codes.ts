@@ -0,0 +1,55 @@
+/**
+ * Labels for the numeric codes used by OFFX alert filters and alert records
+ */
+export const ALERT_CODE_LABELS = {
+  ref_source_type: {
+    '9': 'Congress', '10': 'Website Reference', '11': 'Company Communication', '27': 'Health Organization', '24': 'Database', '22': 'DailyMed', '23': 'Regulatory Agency Briefing', '25': 'Patent', '12': 'Medical Society Communication', '13': 'Research Institution Communication', '14': 'Regulatory Agency Communication', '15': 'Regulatory Agency Guideline', '16': 'Patient Advocacy Group communication', '17': 'Other', '18': 'Book', '19': 'Journal', '20': 'Congress Alert', '21': 'Congress & Conferences', '26': 'Clinical Trial Registry'
+  },
+  alert_type: { '1': 'Class Alert', '2': 'Drug Alert', '1,2': 'Both' },
+  alert_phase: {
+    '1': 'Clinical/Postmarketing', '2': 'Preclinical', '3': 'Clinical', '4': 'Postmarketing', '5': 'Target Discovery', '6': 'Phase I', '7': 'Phase II', '8': 'Phase III', '9': 'Phase IV', '10': 'Phase I/II', '11': 'Phase II/III', '12': 'Phase III/IV'
+  },
+  alert_level_evidence: { '1': 'Confirmed/Reported', '2': 'Suspected', '3': 'Refuted/Not Associated' },
+  alert_onoff_target: { '1': 'On-Target', '2': 'Off-Target', '3': 'Not Specified' }
+} as const satisfies Record<string, Record<string, string>>;
+
+export type AlertCodeField = keyof typeof ALERT_CODE_LABELS;
+
+const CODE_FIELDS = Object.keys(ALERT_CODE_LABELS) as AlertCodeField[];
+
+/**
+ * Returns the label for a code (or comma separated codes) of a coded field,
+ * or undefined when any of the codes is unknown
+ */
+export function labelForCodes(field: AlertCodeField, value: string | number): string | undefined {
+  const labels: Record<string, string> = ALERT_CODE_LABELS[field];
+  const text = String(value).trim();
+  if (labels[text]) return labels[text];
+  const parts = text.split(',').map(part => labels[part.trim()]);
+  return parts.every(Boolean) ? parts.join(', ') : undefined;
+}
+
+/**
+ * Adds a `<field>_label` next to every coded field found in a response, e.g.
+ * `alert_phase: "7"` gets `alert_phase_label: "Phase II"`
+ */
+export function addCodeLabels<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => addCodeLabels(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    const labeled: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, child]) => {
+      labeled[key] = addCodeLabels(child);
+      const field = key as AlertCodeField;
+      if (CODE_FIELDS.includes(field) && (typeof child === 'string' || typeof child === 'number')) {
+        const label = labelForCodes(field, child);
+        if (label !== undefined && !(`${key}_label` in value)) {
+          labeled[`${key}_label`] = label;
+        }
+      }
+    });
+    return labeled as T;
+  }
+  return value;
+}
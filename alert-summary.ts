@@ -0,0 +1,81 @@
+import { AlertCodeField, labelForCodes } from "./alert-codes.js";
+
+/**
+ * Alert fields that summarize_alerts counts by
+ */
+export type AlertFacet =
+  | 'alert_severity'
+  | 'alert_phase'
+  | 'alert_species'
+  | 'alert_level_evidence'
+  | 'alert_onoff_target'
+  | 'ref_source_type'
+  | 'adverse_event';
+
+export const ALERT_FACETS: AlertFacet[] = [
+  'alert_severity',
+  'alert_phase',
+  'alert_species',
+  'alert_level_evidence',
+  'alert_onoff_target',
+  'ref_source_type',
+  'adverse_event'
+];
+
+const CODED_FACETS: AlertFacet[] = ['alert_phase', 'alert_level_evidence', 'alert_onoff_target', 'ref_source_type'];
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface FacetCounts {
+  /** Number of distinct values, including those cut off by the value limit */
+  distinct: number;
+  values: FacetValue[];
+}
+
+export interface AlertSummary {
+  total: number;
+  facets: Partial<Record<AlertFacet, FacetCounts>>;
+}
+
+const MISSING = 'unknown';
+
+function facetValue(alert: any, facet: AlertFacet): { value: string, label: string } {
+  if (facet === 'adverse_event') {
+    const id = alert?.adverse_event_id;
+    if (id === undefined || id === null || id === '') return { value: MISSING, label: 'Unknown' };
+    return { value: String(id), label: alert.adverse_event ? String(alert.adverse_event) : String(id) };
+  }
+  const raw = alert?.[facet];
+  if (raw === undefined || raw === null || raw === '') return { value: MISSING, label: 'Unknown' };
+  const value = String(raw);
+  const label = CODED_FACETS.includes(facet) ? labelForCodes(facet as AlertCodeField, value) : undefined;
+  return { value, label: label ?? value };
+}
+
+/**
+ * Counts alert records per value of each requested facet. Values are ordered
+ * by count and capped at maxValues per facet; alerts missing a field are
+ * counted under "unknown".
+ */
+export function summarizeAlertRecords(alerts: any[], facets: AlertFacet[], maxValues: number): AlertSummary {
+  const summary: AlertSummary = { total: alerts.length, facets: {} };
+  facets.forEach(facet => {
+    const counts = new Map<string, FacetValue>();
+    alerts.forEach(alert => {
+      const { value, label } = facetValue(alert, facet);
+      const entry = counts.get(value);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(value, { value, label, count: 1 });
+      }
+    });
+    const values = Array.from(counts.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+    summary.facets[facet] = { distinct: values.length, values: values.slice(0, maxValues) };
+  });
+  return summary;
+}
@@ -0,0 +1,141 @@
+/**
+ * Bucket size for alert timelines
+ */
+export type TimelineInterval = 'month' | 'quarter' | 'year';
+
+export const TIMELINE_INTERVALS: TimelineInterval[] = ['month', 'quarter', 'year'];
+
+/**
+ * Optional split of every bucket into one series per adverse event or severity
+ */
+export type TimelineSplit = 'adverse_event' | 'severity';
+
+export const TIMELINE_SPLITS: TimelineSplit[] = ['adverse_event', 'severity'];
+
+export interface TimelineOptions {
+  interval: TimelineInterval;
+  splitBy?: TimelineSplit;
+  /** Largest series kept; smaller ones are merged into an "other" series */
+  maxSeries: number;
+}
+
+export interface TimelineSeries {
+  key: string;
+  label: string;
+  /** Alert counts aligned with the timeline's buckets */
+  counts: number[];
+  total: number;
+}
+
+export interface AlertTimeline {
+  interval: TimelineInterval;
+  split_by: TimelineSplit | null;
+  /** Consecutive bucket labels from the earliest to the latest alert, e.g. 2024-03, 2024-Q1 or 2024 */
+  buckets: string[];
+  series: TimelineSeries[];
+  total: number;
+  /** Alerts without a usable date, left out of the series */
+  undated: number;
+}
+
+interface Period {
+  year: number;
+  /** 0-based month, quarter or 0 for years */
+  index: number;
+}
+
+const PERIODS_PER_YEAR: Record<TimelineInterval, number> = { month: 12, quarter: 4, year: 1 };
+
+// Alert records carry their date under one of these fields
+const DATE_FIELDS = ['alert_date', 'alert_date_from', 'alert_date_to'];
+
+function alertPeriod(alert: any, interval: TimelineInterval): Period | undefined {
+  const value = DATE_FIELDS.map(field => alert?.[field]).find(date => typeof date === 'string' && date !== '');
+  const match = /^(\d{4})-(\d{2})/.exec(value || '');
+  if (!match) return undefined;
+  const year = parseInt(match[1]);
+  const month = parseInt(match[2]) - 1;
+  if (month < 0 || month > 11) return undefined;
+  return { year, index: interval === 'month' ? month : interval === 'quarter' ? Math.floor(month / 3) : 0 };
+}
+
+function periodLabel(period: Period, interval: TimelineInterval): string {
+  if (interval === 'month') return `${period.year}-${String(period.index + 1).padStart(2, '0')}`;
+  if (interval === 'quarter') return `${period.year}-Q${period.index + 1}`;
+  return String(period.year);
+}
+
+const periodOrdinal = (period: Period, interval: TimelineInterval) => period.year * PERIODS_PER_YEAR[interval] + period.index;
+
+function seriesKey(alert: any, splitBy?: TimelineSplit): { key: string, label: string } {
+  if (splitBy === 'adverse_event') {
+    const id = alert?.adverse_event_id;
+    if (id === undefined || id === null || id === '') return { key: 'unknown', label: 'Unknown adverse event' };
+    return { key: String(id), label: alert.adverse_event ? String(alert.adverse_event) : String(id) };
+  }
+  if (splitBy === 'severity') {
+    const severity = alert?.alert_severity;
+    if (severity === undefined || severity === null || severity === '') return { key: 'unknown', label: 'Unknown severity' };
+    return { key: String(severity), label: String(severity) };
+  }
+  return { key: 'all', label: 'All alerts' };
+}
+
+/**
+ * Buckets alert records by month, quarter or year of their alert date into
+ * chart-ready series: every series has one count per bucket and buckets with
+ * no alerts are included as zeros
+ */
+export function buildAlertTimeline(alerts: any[], options: TimelineOptions): AlertTimeline {
+  const { interval, splitBy, maxSeries } = options;
+  const dated: { ordinal: number, key: string, label: string }[] = [];
+  let undated = 0;
+  alerts.forEach(alert => {
+    const period = alertPeriod(alert, interval);
+    if (!period) {
+      undated++;
+      return;
+    }
+    dated.push({ ordinal: periodOrdinal(period, interval), ...seriesKey(alert, splitBy) });
+  });
+
+  const perYear = PERIODS_PER_YEAR[interval];
+  const first = dated.length > 0 ? Math.min(...dated.map(item => item.ordinal)) : 0;
+  const last = dated.length > 0 ? Math.max(...dated.map(item => item.ordinal)) : -1;
+  const buckets: string[] = [];
+  for (let ordinal = first; ordinal <= last; ordinal++) {
+    buckets.push(periodLabel({ year: Math.floor(ordinal / perYear), index: ordinal % perYear }, interval));
+  }
+
+  const byKey = new Map<string, TimelineSeries>();
+  dated.forEach(item => {
+    let series = byKey.get(item.key);
+    if (!series) {
+      series = { key: item.key, label: item.label, counts: buckets.map(() => 0), total: 0 };
+      byKey.set(item.key, series);
+    }
+    series.counts[item.ordinal - first]++;
+    series.total++;
+  });
+
+  const sorted = Array.from(byKey.values()).sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+  const series = sorted.slice(0, maxSeries);
+  const rest = sorted.slice(maxSeries);
+  if (rest.length > 0) {
+    series.push({
+      key: 'other',
+      label: `Other (${rest.length})`,
+      counts: buckets.map((_, index) => rest.reduce((sum, item) => sum + item.counts[index], 0)),
+      total: rest.reduce((sum, item) => sum + item.total, 0)
+    });
+  }
+
+  return {
+    interval,
+    split_by: splitBy ?? null,
+    buckets,
+    series,
+    total: dated.length,
+    undated
+  };
+}
@@ -0,0 +1,197 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Logger } from './logger.js';
+
+/**
+ * Endpoint groups with their own TTL. OFFX reference data (search results,
+ * masterviews, scores) changes slowly; alerts change more often.
+ */
+export type CacheCategory = 'search' | 'masterview' | 'alerts' | 'score';
+
+export const CACHE_CATEGORIES: CacheCategory[] = ['search', 'masterview', 'alerts', 'score'];
+
+/**
+ * Per-call cache behavior:
+ * - default: serve from cache when fresh, store misses
+ * - bypass: neither read nor write the cache
+ * - refresh: skip the read but store the fresh response
+ */
+export type CacheMode = 'default' | 'bypass' | 'refresh';
+
+export const CACHE_MODES: CacheMode[] = ['default', 'bypass', 'refresh'];
+
+export interface ResponseCacheOptions {
+  maxEntries: number;
+  /** Time to live per category in milliseconds; 0 disables caching for that category */
+  ttlMs: Record<CacheCategory, number>;
+  /** Optional directory for the on-disk store */
+  diskDir?: string;
+  /** Reports on-disk store failures, which never fail a lookup or a store */
+  logger?: Logger;
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  diskHits: number;
+  hitRate: number;
+  byCategory: Record<CacheCategory, { hits: number, misses: number }>;
+}
+
+export interface ResponseCache {
+  ttlFor(category: CacheCategory): number;
+  get(category: CacheCategory, key: string): Promise<unknown | undefined>;
+  set(category: CacheCategory, key: string, value: unknown): Promise<void>;
+  /** Removes entries, optionally only those of one category and/or with keys starting with keyPrefix */
+  clear(category?: CacheCategory, keyPrefix?: string): Promise<number>;
+  stats(): CacheStats;
+}
+
+interface CacheEntry {
+  category: CacheCategory;
+  expiresAt: number;
+  value: unknown;
+  /** Set in disk files, whose names are hashes, so they can be cleared by key prefix */
+  key?: string;
+}
+
+/**
+ * Maps an OFFX endpoint path to its cache category
+ */
+export function categorizeEndpoint(endpoint: string): CacheCategory {
+  if (endpoint.includes('/masterview/')) return 'masterview';
+  if (endpoint.includes('/alerts/')) return 'alerts';
+  if (endpoint.startsWith('/api/score/')) return 'score';
+  return 'search';
+}
+
+/**
+ * Builds a stable cache key from an endpoint and its query parameters
+ */
+export function cacheKey(endpoint: string, params: Record<string, unknown>): string {
+  const query = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null && params[key] !== '')
+    .sort()
+    .map(key => `${key}=${String(params[key])}`)
+    .join('&');
+  return `${endpoint}?${query}`;
+}
+
+/**
+ * Creates an LRU response cache with per-category TTLs, optionally backed by
+ * a directory of JSON files so entries survive restarts. Expired files are
+ * deleted when they are next looked up.
+ */
+export function createResponseCache(options: ResponseCacheOptions): ResponseCache {
+  const entries = new Map<string, CacheEntry>();
+  const counters = { hits: 0, misses: 0, diskHits: 0 };
+  const byCategory = Object.fromEntries(
+    CACHE_CATEGORIES.map(category => [category, { hits: 0, misses: 0 }])
+  ) as Record<CacheCategory, { hits: number, misses: number }>;
+
+  const diskPath = (key: string) =>
+    path.join(options.diskDir as string, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  const remember = (key: string, entry: CacheEntry) => {
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > options.maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+    }
+  };
+
+  const readDisk = async (key: string): Promise<CacheEntry | undefined> => {
+    if (!options.diskDir) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(diskPath(key), 'utf8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const removeDisk = (key: string) =>
+    fs.rm(diskPath(key), { force: true }).catch(error => {
+      options.logger?.warn('Cannot remove expired cache entry', { error: error instanceof Error ? error.message : String(error) });
+    });
+
+  const recordMiss = (category: CacheCategory) => {
+    counters.misses++;
+    byCategory[category].misses++;
+    return undefined;
+  };
+
+  return {
+    ttlFor(category) {
+      return options.ttlMs[category] ?? 0;
+    },
+
+    async get(category, key) {
+      const now = Date.now();
+      let entry = entries.get(key);
+      if (entry && entry.expiresAt > now) {
+        remember(key, entry);
+      } else {
+        entries.delete(key);
+        entry = await readDisk(key);
+        if (entry && entry.expiresAt <= now) await removeDisk(key);
+        if (!entry || entry.expiresAt <= now) return recordMiss(category);
+        counters.diskHits++;
+        remember(key, entry);
+      }
+      counters.hits++;
+      byCategory[category].hits++;
+      return entry.value;
+    },
+
+    async set(category, key, value) {
+      const ttl = options.ttlMs[category] ?? 0;
+      if (ttl <= 0) return;
+      const entry: CacheEntry = { category, expiresAt: Date.now() + ttl, value };
+      remember(key, entry);
+      if (options.diskDir) {
+        try {
+          await fs.mkdir(options.diskDir, { recursive: true });
+          await fs.writeFile(diskPath(key), JSON.stringify({ ...entry, key }));
+        } catch (error) {
+          options.logger?.warn('Cannot write cache entry', { category, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    },
+
+    async clear(category, keyPrefix) {
+      let removed = 0;
+      entries.forEach((entry, key) => {
+        if ((!category || entry.category === category) && (!keyPrefix || key.startsWith(keyPrefix))) {
+          entries.delete(key);
+          removed++;
+        }
+      });
+      if (options.diskDir) {
+        const files = await fs.readdir(options.diskDir).catch(() => [] as string[]);
+        for (const file of files.filter(name => name.endsWith('.json'))) {
+          const filePath = path.join(options.diskDir, file);
+          if (category || keyPrefix) {
+            const entry = await fs.readFile(filePath, 'utf8').then(text => JSON.parse(text) as CacheEntry).catch(() => undefined);
+            if (category && entry?.category !== category) continue;
+            if (keyPrefix && !entry?.key?.startsWith(keyPrefix)) continue;
+          }
+          await fs.rm(filePath, { force: true });
+        }
+      }
+      return removed;
+    },
+
+    stats() {
+      const lookups = counters.hits + counters.misses;
+      return {
+        entries: entries.size,
+        ...counters,
+        hitRate: lookups ? counters.hits / lookups : 0,
+        byCategory
+      };
+    }
+  };
+}
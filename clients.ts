@@ -0,0 +1,201 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { promises as fs, readFileSync } from 'fs';
+import http from 'http';
+import path from 'path';
+import { Logger } from './logger.js';
+
+/**
+ * Maximum number of OFFX requests a client may make per fixed time window
+ */
+export interface ClientQuota {
+  requests: number;
+  windowSeconds: number;
+}
+
+/**
+ * An HTTP client allowed to call the server, as configured in OFFX_CLIENTS_FILE
+ */
+export interface ClientConfig {
+  name: string;
+  /** OFFX token sent with this client's requests; the server-wide token when undefined */
+  offxToken?: string;
+  quota?: ClientQuota;
+}
+
+export interface ClientRegistry {
+  clients: ClientConfig[];
+  /** The client whose API key is sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`, if any */
+  authenticate(headers: http.IncomingHttpHeaders): ClientConfig | undefined;
+  /** Counts one OFFX request against the client's quota; throws QuotaExceededError when it is used up */
+  consume(client: ClientConfig, now?: number): void;
+}
+
+/**
+ * Raised when a client has used up its quota of OFFX requests for the
+ * current window. Cached responses are still served.
+ */
+export class QuotaExceededError extends Error {
+  readonly client: string;
+  readonly quota: ClientQuota;
+  readonly retryAfterSeconds: number;
+
+  constructor(client: string, quota: ClientQuota, retryAfterSeconds: number) {
+    super(`Quota exceeded for client ${client}: ${quota.requests} OFFX requests per ${quota.windowSeconds}s, retry in ${retryAfterSeconds}s`);
+    this.name = 'QuotaExceededError';
+    this.client = client;
+    this.quota = quota;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const CLIENT_NAME = /^[\w.-]+$/;
+const SHA256_HEX = /^[0-9a-f]{64}$/i;
+const MIN_API_KEY_LENGTH = 16;
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest();
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+// The API key of a request: a Bearer token, or the X-API-Key header
+function presentedKey(headers: http.IncomingHttpHeaders): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(headers.authorization || '');
+  if (match) return match[1];
+  const header = headers['x-api-key'];
+  return typeof header === 'string' && header ? header : undefined;
+}
+
+/**
+ * Reads the clients file:
+ *
+ *   { "clients": [{ "name": "oncology", "api_key_sha256": "<hex>", "offx_token": "...",
+ *                   "quota": { "requests": 1000, "window_seconds": 3600 } }] }
+ *
+ * Each client has either a plain `api_key` or its SHA-256 hash as
+ * `api_key_sha256`; `offx_token` and `quota` are optional. Throws on
+ * malformed entries, duplicate names and duplicate keys.
+ */
+export function loadClientRegistry(file: string): ClientRegistry {
+  const config = JSON.parse(readFileSync(file, 'utf8'));
+  if (!config || typeof config !== 'object' || !Array.isArray(config.clients) || config.clients.length === 0) {
+    throw new Error(`${file} must contain an object with a non-empty "clients" list`);
+  }
+  const names = new Set<string>();
+  const keyHashes = new Map<string, ClientConfig>();
+  const clients = (config.clients as any[]).map((entry, index): ClientConfig => {
+    const where = `${file}: clients[${index}]`;
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${where} must be an object`);
+    }
+    if (typeof entry.name !== 'string' || !CLIENT_NAME.test(entry.name)) {
+      throw new Error(`${where}.name must contain only letters, digits, '_', '.' and '-'`);
+    }
+    if (names.has(entry.name)) {
+      throw new Error(`${where}: duplicate client name ${entry.name}`);
+    }
+    names.add(entry.name);
+    if ((entry.api_key === undefined) === (entry.api_key_sha256 === undefined)) {
+      throw new Error(`${where} must have exactly one of api_key and api_key_sha256`);
+    }
+    if (entry.api_key !== undefined && (typeof entry.api_key !== 'string' || entry.api_key.length < MIN_API_KEY_LENGTH)) {
+      throw new Error(`${where}.api_key must be a string of at least ${MIN_API_KEY_LENGTH} characters`);
+    }
+    if (entry.api_key_sha256 !== undefined && (typeof entry.api_key_sha256 !== 'string' || !SHA256_HEX.test(entry.api_key_sha256))) {
+      throw new Error(`${where}.api_key_sha256 must be a hex-encoded SHA-256 hash`);
+    }
+    if (entry.offx_token !== undefined && (typeof entry.offx_token !== 'string' || !entry.offx_token)) {
+      throw new Error(`${where}.offx_token must be a non-empty string`);
+    }
+    if (entry.quota !== undefined && (!entry.quota || !isPositiveInteger(entry.quota.requests) || !isPositiveInteger(entry.quota.window_seconds))) {
+      throw new Error(`${where}.quota must have positive integer requests and window_seconds`);
+    }
+    const client: ClientConfig = {
+      name: entry.name,
+      ...(entry.offx_token ? { offxToken: entry.offx_token } : {}),
+      ...(entry.quota ? { quota: { requests: entry.quota.requests, windowSeconds: entry.quota.window_seconds } } : {})
+    };
+    const keyHash = entry.api_key !== undefined ? sha256(entry.api_key).toString('hex') : entry.api_key_sha256.toLowerCase();
+    if (keyHashes.has(keyHash)) {
+      throw new Error(`${where} has the same API key as client ${keyHashes.get(keyHash)?.name}`);
+    }
+    keyHashes.set(keyHash, client);
+    return client;
+  });
+
+  const entries = Array.from(keyHashes, ([hash, client]) => ({ hash: Buffer.from(hash, 'hex'), client }));
+  const windows = new Map<string, { start: number, count: number }>();
+
+  return {
+    clients,
+
+    authenticate(headers) {
+      const key = presentedKey(headers);
+      if (!key) return undefined;
+      const hash = sha256(key);
+      // Compare against every key in constant time so timing does not reveal a near match
+      let found: ClientConfig | undefined;
+      entries.forEach(entry => {
+        if (timingSafeEqual(entry.hash, hash)) found = entry.client;
+      });
+      return found;
+    },
+
+    consume(client, now = Date.now()) {
+      if (!client.quota) return;
+      const windowMs = client.quota.windowSeconds * 1000;
+      let window = windows.get(client.name);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(client.name, window);
+      }
+      if (window.count >= client.quota.requests) {
+        throw new QuotaExceededError(client.name, client.quota, Math.ceil((window.start + windowMs - now) / 1000));
+      }
+      window.count++;
+    }
+  };
+}
+
+/**
+ * One HTTP tool call made by an authenticated client
+ */
+export interface AuditEntry {
+  time: string;
+  request_id: string;
+  client: string;
+  tool: string;
+  arguments: unknown;
+  /** 'ok', or the error type of a failed call */
+  status: string;
+  error?: string;
+  latency_ms: number;
+  /** Requests sent to the OFFX API, retries included; cache hits are not counted */
+  offx_requests: number;
+}
+
+export interface AuditLog {
+  /** Appends the entry to the client's audit file. Failures are logged, never thrown. */
+  record(entry: AuditEntry): Promise<void>;
+}
+
+/**
+ * Creates the audit trail: one JSON line per tool call, appended to
+ * `<dir>/<client>.jsonl` so each client's calls can be reviewed on their own
+ */
+export function createAuditLog(dir: string, logger: Logger): AuditLog {
+  let ready: Promise<unknown> | undefined;
+  return {
+    async record(entry) {
+      try {
+        if (!ready) {
+          ready = fs.mkdir(dir, { recursive: true });
+          // Retry creating the directory on the next call after a failure
+          ready.catch(() => { ready = undefined; });
+        }
+        await ready;
+        await fs.appendFile(path.join(dir, `${entry.client}.jsonl`), JSON.stringify(entry) + '\n');
+      } catch (error) {
+        logger.error('Cannot write audit entry', { request_id: entry.request_id, client: entry.client, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * An adverse event as listed by the OFFX adverse event endpoints
+ */
+export interface AdverseEventRef {
+  adverse_event_id: string;
+  adverse_event: string;
+}
+
+/**
+ * Safety data gathered for one drug before it is compared
+ */
+export interface DrugSafetyProfile {
+  drug_id: string;
+  /** Overall drug score, null when OFFX returns none */
+  score: number | null;
+  adverseEvents: AdverseEventRef[];
+  /** Alert counts keyed by adverse_event_id */
+  alertCounts: Record<string, number>;
+  /** False when not every alert page was fetched, so counts are lower bounds */
+  alertsComplete: boolean;
+}
+
+export interface ComparisonCell {
+  present: boolean;
+  alerts: number;
+  /** Drug score for this adverse event, filled in after the table is built */
+  score?: number | null;
+}
+
+export interface ComparisonRow extends AdverseEventRef {
+  /** True when every compared drug is associated with the adverse event */
+  shared: boolean;
+  drugs_reporting: number;
+  total_alerts: number;
+  by_drug: Record<string, ComparisonCell>;
+}
+
+export interface DrugComparison {
+  drugs: { drug_id: string, score: number | null, adverse_events: number, alerts: number, alerts_complete: boolean }[];
+  shared_adverse_events: AdverseEventRef[];
+  unique_adverse_events: Record<string, AdverseEventRef[]>;
+  table: ComparisonRow[];
+  /** Rows left out of the table by the row limit */
+  rows_omitted: number;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Builds a side-by-side comparison of drug safety profiles. An adverse event
+ * counts as associated with a drug when OFFX lists it for the drug or the
+ * drug has alerts for it. Table rows are ordered shared events first, then by
+ * how many drugs report the event and by alert count, and capped at maxRows.
+ */
+export function compareDrugProfiles(profiles: DrugSafetyProfile[], maxRows: number): DrugComparison {
+  const names = new Map<string, string>();
+  profiles.forEach(profile => {
+    profile.adverseEvents.forEach(event => {
+      if (!names.has(event.adverse_event_id)) names.set(event.adverse_event_id, event.adverse_event);
+    });
+    Object.keys(profile.alertCounts).forEach(id => {
+      if (!names.has(id)) names.set(id, id);
+    });
+  });
+
+  const rows: ComparisonRow[] = Array.from(names.entries()).map(([id, name]) => {
+    const byDrug: Record<string, ComparisonCell> = {};
+    profiles.forEach(profile => {
+      const alerts = profile.alertCounts[id] || 0;
+      const listed = profile.adverseEvents.some(event => event.adverse_event_id === id);
+      byDrug[profile.drug_id] = { present: listed || alerts > 0, alerts };
+    });
+    const cells = Object.values(byDrug);
+    const reporting = cells.filter(cell => cell.present).length;
+    return {
+      adverse_event_id: id,
+      adverse_event: name,
+      shared: reporting === profiles.length,
+      drugs_reporting: reporting,
+      total_alerts: sum(cells.map(cell => cell.alerts)),
+      by_drug: byDrug
+    };
+  });
+
+  rows.sort((a, b) =>
+    Number(b.shared) - Number(a.shared) ||
+    b.drugs_reporting - a.drugs_reporting ||
+    b.total_alerts - a.total_alerts ||
+    String(a.adverse_event ?? a.adverse_event_id ?? '').localeCompare(String(b.adverse_event ?? b.adverse_event_id ?? ''))
+  );
+
+  const ref = (row: ComparisonRow): AdverseEventRef => ({ adverse_event_id: row.adverse_event_id, adverse_event: row.adverse_event });
+  const uniqueAdverseEvents = Object.fromEntries(profiles.map(profile => [
+    profile.drug_id,
+    rows.filter(row => row.drugs_reporting === 1 && row.by_drug[profile.drug_id].present).map(ref)
+  ]));
+
+  return {
+    drugs: profiles.map(profile => ({
+      drug_id: profile.drug_id,
+      score: profile.score,
+      adverse_events: rows.filter(row => row.by_drug[profile.drug_id].present).length,
+      alerts: sum(Object.values(profile.alertCounts)),
+      alerts_complete: profile.alertsComplete
+    })),
+    shared_adverse_events: rows.filter(row => row.shared).map(ref),
+    unique_adverse_events: uniqueAdverseEvents,
+    table: rows.slice(0, maxRows),
+    rows_omitted: Math.max(0, rows.length - maxRows)
+  };
+}
@@ -0,0 +1,79 @@
+import { readFileSync } from 'fs';
+import { pickBySchema } from "./util.js";
+
+/**
+ * Field path that disables projection and returns the full response
+ */
+export const ALL_FIELDS = '*';
+
+// Response metadata added by the server, kept whatever fields are requested
+const METADATA_FIELDS = ['pagination', 'resolved'];
+
+/**
+ * Turns dotted field paths into the nested rules understood by pickBySchema,
+ * e.g. ["drug.drug_id", "drug.drug_main_name"] becomes
+ * { drug: { drug_id: true, drug_main_name: true } }. Paths pass through
+ * arrays, so "alerts.adverse_event_id" keeps that field of every alert.
+ */
+export function fieldsToPickSchema(paths: string[]): Record<string, any> {
+  const schema: Record<string, any> = {};
+  paths.forEach(path => {
+    const parts = path.split('.').map(part => part.trim());
+    let node = schema;
+    for (const [index, part] of parts.entries()) {
+      // A shorter path already keeps the whole subtree
+      if (node[part] === true) break;
+      if (index === parts.length - 1) {
+        node[part] = true;
+      } else {
+        node[part] = typeof node[part] === 'object' ? node[part] : {};
+        node = node[part];
+      }
+    }
+  });
+  return schema;
+}
+
+/**
+ * Checks a list of field paths, returning a message for the first invalid one
+ */
+export function invalidFieldPath(paths: string[]): string | undefined {
+  const invalid = paths.find(path => path !== ALL_FIELDS && path.split('.').some(part => part.trim() === ''));
+  return invalid === undefined ? undefined : `Invalid field path "${invalid}": use dotted names such as drug.drug_main_name`;
+}
+
+/**
+ * Trims a tool result to the given field paths. Server metadata such as
+ * `pagination` and `resolved` is always kept; "*" returns the result unchanged.
+ */
+export function projectFields<T>(result: T, paths: string[]): T {
+  if (paths.length === 0 || paths.includes(ALL_FIELDS) || !result || typeof result !== 'object') {
+    return result;
+  }
+  const projected = pickBySchema(result, fieldsToPickSchema(paths));
+  if (!Array.isArray(result)) {
+    METADATA_FIELDS.forEach(field => {
+      if (field in (result as Record<string, unknown>)) projected[field] = (result as Record<string, unknown>)[field];
+    });
+  }
+  return projected;
+}
+
+/**
+ * Reads default field projections per tool from a JSON file of the form
+ * { "get_drug": ["drug.drug_id", "drug.drug_main_name"], ... }
+ */
+export function loadFieldDefaults(file: string): Record<string, string[]> {
+  const config = JSON.parse(readFileSync(file, 'utf8'));
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`${file} must contain an object mapping tool names to lists of field paths`);
+  }
+  Object.entries(config).forEach(([tool, paths]) => {
+    if (!Array.isArray(paths) || !paths.every(path => typeof path === 'string')) {
+      throw new Error(`${file}: fields for ${tool} must be a list of strings`);
+    }
+    const invalid = invalidFieldPath(paths);
+    if (invalid) throw new Error(`${file}: ${invalid}`);
+  });
+  return config as Record<string, string[]>;
+}
@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Sample OFFX responses shipped with the package, used by replay mode and the
+ * mock OFFX server when no other directory is configured
+ */
+export const BUNDLED_FIXTURES_DIR = fileURLToPath(new URL('../fixtures', import.meta.url));
+
+// Query parameters that never select a fixture
+const IGNORED_PARAMS = new Set(['token']);
+
+/**
+ * A recorded OFFX response: the request it answers, its status and its body
+ * (parsed JSON, or the raw text of an error response)
+ */
+export interface Fixture {
+  request: { endpoint: string, params: Record<string, string> };
+  status: number;
+  body: unknown;
+}
+
+export interface FixtureStore {
+  /** The recorded response closest to a request, if any (see matchScore) */
+  find(endpoint: string, params: Record<string, unknown>): Promise<Fixture | undefined>;
+  /** Records a response, replacing any earlier recording of the same request */
+  save(endpoint: string, params: Record<string, unknown>, status: number, body: unknown): Promise<void>;
+}
+
+// Request parameters as recorded: strings, without empty values or the token
+function normalizeParams(params: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(Object.keys(params)
+    .filter(key => !IGNORED_PARAMS.has(key) && params[key] !== undefined && params[key] !== null && params[key] !== '')
+    .sort()
+    .map(key => [key, String(params[key])]));
+}
+
+/**
+ * File name of a recording, e.g. api-drug-alerts-param--drug_id=140448&page=1.json
+ */
+export function fixtureFileName(endpoint: string, params: Record<string, unknown>): string {
+  const query = Object.entries(normalizeParams(params)).map(([key, value]) => `${key}=${value}`).join('&');
+  const name = endpoint.replace(/^\/+/, '').replace(/\//g, '-') + (query ? `--${query}` : '');
+  return `${name.replace(/[^\w=&,.-]/g, '_')}.json`;
+}
+
+/**
+ * How well a fixture answers a request, or -1 when it does not. The endpoint
+ * must be the same, and every recorded parameter other than page must have
+ * the requested value. Parameters the fixture does not record (such as extra
+ * filters) are ignored. A request for a page after the last recorded one gets
+ * the last recorded page again, which callers walking pages treat as the end.
+ * Exact matches score highest, then later pages, then fixtures recording more
+ * of the requested parameters.
+ */
+export function matchScore(fixture: Fixture, endpoint: string, params: Record<string, string>): number {
+  if (fixture.request.endpoint !== endpoint) return -1;
+  const recorded = fixture.request.params;
+  const mismatch = Object.keys(recorded).some(key => key !== 'page' && recorded[key] !== params[key]);
+  const recordedPage = Number(recorded.page ?? 1);
+  const requestedPage = Number(params.page ?? 1);
+  if (mismatch || recordedPage > requestedPage) return -1;
+  const exact = recordedPage === requestedPage && Object.keys(params).every(key => key in recorded);
+  return (exact ? 1_000_000 : 0) + recordedPage * 1000 + Object.keys(recorded).length;
+}
+
+/**
+ * Creates a store of recorded OFFX responses kept as one JSON file per request
+ * in `dir`. Files are read once, on first use.
+ */
+export function createFixtureStore(dir: string): FixtureStore {
+  let loaded: Promise<Fixture[]> | undefined;
+
+  const load = async () => {
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const fixtures = await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(async file => {
+        try {
+          return JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as Fixture;
+        } catch (error) {
+          throw new Error(`Invalid fixture ${path.join(dir, file)}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }));
+    return fixtures.filter(fixture => typeof fixture?.request?.endpoint === 'string');
+  };
+
+  const fixtures = () => {
+    if (!loaded) loaded = load();
+    return loaded;
+  };
+
+  return {
+    async find(endpoint, params) {
+      const wanted = normalizeParams(params);
+      let best: Fixture | undefined;
+      let bestScore = -1;
+      (await fixtures()).forEach(fixture => {
+        const score = matchScore(fixture, endpoint, wanted);
+        if (score > bestScore) {
+          best = fixture;
+          bestScore = score;
+        }
+      });
+      return best;
+    },
+
+    async save(endpoint, params, status, body) {
+      const fixture: Fixture = { request: { endpoint, params: normalizeParams(params) }, status, body };
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, fixtureFileName(endpoint, params)), JSON.stringify(fixture, null, 2) + '\n');
+      const all = await fixtures();
+      const index = all.findIndex(other => fixtureFileName(other.request.endpoint, other.request.params) === fixtureFileName(endpoint, params));
+      if (index >= 0) all[index] = fixture;
+      else all.push(fixture);
+    }
+  };
+}
@@ -7,12 +7,45 @@
  * It supports both MCP server mode (with stdio or SSE transport) and HTTP server mode for flexible integration.
  * 
  * Environment Variables:
- * - OFFX_API_TOKEN: Required. API token for OFFX API authentication
  * - USE_HTTP: Optional. Set to 'true' to run as HTTP server (default: false)
  * - PORT: Optional. Port number for HTTP server (default: 3000)
- * - LOG_LEVEL: Optional. Logging level (default: 'info')
+ * - OFFX_CLIENTS_FILE: Optional. JSON file of HTTP clients with their API keys, OFFX tokens and quotas;
+ *   when set, HTTP mode only serves requests with a valid API key (default: no authentication);
+ *   not supported in MCP mode, including TRANSPORT=sse
+ * - OFFX_AUDIT_DIR: Optional. Directory of per-client audit files of HTTP tool calls (default: ~/.offx-mcp/audit)
+ * - LOG_LEVEL: Optional. Logging level: 'error', 'warn', 'info' or 'debug' (default: 'info')
+ * - LOG_FORMAT: Optional. 'text' or 'json' (one JSON object per line) (default: 'text')
+ * - LOG_FILE: Optional. Append logs to this file instead of stderr; logs never go to stdout
  * - TRANSPORT: Optional. MCP transport type ('stdio' or 'sse', default: 'stdio')
  * - SSE_PATH: Optional. Path for SSE endpoint when using SSE transport (default: '/mcp')
+ * - MCP_SESSION_TIMEOUT_MS: Optional. Idle timeout for network MCP sessions (default: 1800000)
+ * - OFFX_API_TOKEN: Required for the OFFX API; optional with a custom OFFX_BASE_URL or in replay mode
+ * - OFFX_BASE_URL: Optional. OFFX API base URL, e.g. a mock OFFX server (default: 'https://api.targetsafety.info')
+ * - OFFX_MODE: Optional. 'live', 'record' (save responses to OFFX_FIXTURES_DIR) or 'replay'
+ *   (serve responses from OFFX_FIXTURES_DIR without network access) (default: 'live')
+ * - OFFX_FIXTURES_DIR: Optional. Directory of recorded responses; required for record mode
+ *   (default for replay: the bundled sample fixtures)
+ * - OFFX_AUTH_MODE: Optional. Send the token as a 'query' parameter or a 'header' (Authorization: Bearer) (default: 'query')
+ * - OFFX_TIMEOUT_MS: Optional. Timeout for a single OFFX API request in milliseconds (default: 30000)
+ * - OFFX_MAX_RETRIES: Optional. Retries on 429, 5xx and network errors (default: 3)
+ * - OFFX_RETRY_BASE_DELAY_MS: Optional. Base delay for exponential backoff (default: 500)
+ * - OFFX_RETRY_MAX_DELAY_MS: Optional. Upper bound for a single backoff delay (default: 10000)
+ * - OFFX_MAX_PAGES: Optional. Upper bound on pages fetched by all_pages/max_pages (default: 20)
+ * - OFFX_MAX_CONCURRENCY: Optional. Concurrent OFFX requests made by multi-call tools such as compare_drugs (default: 4)
+ * - OFFX_CACHE_ENABLED: Optional. Set to 'false' to disable the response cache (default: true)
+ * - OFFX_CACHE_MAX_ENTRIES: Optional. Maximum number of responses kept in memory (default: 1000)
+ * - OFFX_CACHE_DIR: Optional. Directory for the on-disk cache store (default: memory only)
+ * - OFFX_CACHE_TTL_SEARCH / _MASTERVIEW / _ALERTS / _SCORE: Optional. Cache TTLs in seconds
+ *   per endpoint group (defaults: 86400 / 21600 / 3600 / 21600, 0 disables caching for the group)
+ * - OFFX_FIELDS_CONFIG: Optional. JSON file with default field projections per tool,
+ *   e.g. { "get_drug": ["drug.drug_id", "drug.drug_main_name"] } (default: full responses)
+ * - OFFX_MAX_RESPONSE_CHARS: Optional. Maximum tool response size in characters; larger responses
+ *   are returned in slices fetched with a cursor (default: 0, no limit)
+ * - OFFX_MAX_RESPONSE_TOKENS: Optional. Same limit in approximate tokens (4 characters each);
+ *   the smaller of the two limits applies
+ * - OFFX_CURSOR_TTL_SECONDS: Optional. How long the rest of a truncated response is kept (default: 600)
+ * - OFFX_WATCHLIST_FILE: Optional. JSON file holding watchlists and their alert snapshots
+ *   (default: ~/.offx-mcp/watchlists.json)
  *
  * # OFFX MCP Server - README
  *
@@ -102,10 +135,69 @@
  * - get_targets: Get primary or secondary targets for a drug by drug_id, or targets by adverse_event_id, using the OFFX API.
  *   - Input: { drug_id?: string, type?: 'primary' | 'secondary', adverse_event_id?: string }
  *
+ * - compare_drugs: Compare the safety profiles (adverse events, scores, alert counts) of several drugs
+ *   - Input: { drug_ids?: string[], drug_names?: string[], max_adverse_events?: number }
+ *
+ * - get_drug_target_liabilities: Ranked primary and secondary target liabilities (score, adverse events) for a drug
+ *   - Input: { drug_id: string, include_secondary?: boolean, max_adverse_events?: number }
+ *
+ * - alert_timeline: Alert counts per month, quarter or year for a drug or target, optionally split by adverse event or severity
+ *   - Input: { drug_id?: string, target_id?: string, interval?: 'month' | 'quarter' | 'year', split_by?: 'adverse_event' | 'severity', ...get_alerts filters }
+ *
+ * - summarize_alerts: Alert counts for a drug or target grouped by severity, phase, species, evidence, on/off target, source and adverse event
+ *   - Input: { drug_id?: string, target_id?: string, facets?: string[], max_values?: number, ...get_alerts filters }
+ *
+ * - generate_drug_safety_report: Markdown safety dossier for a drug (identity, targets, adverse events, serious alerts, references)
+ *   - Input: { drug_id: string, top_adverse_events?: number, max_references?: number }
+ *
+ * - add_to_watchlist / remove_from_watchlist: Add or remove watched drugs and target/action pairs
+ *   - Input: { watchlist?: string, drug_ids?: string[], targets?: { target_id: string, action_id: string }[] }
+ *
+ * - get_watchlists: List watchlists with their items and when each was last checked
+ *   - Input: { watchlist?: string }
+ *
+ * - get_new_alerts: Alerts that appeared or changed for watched items since the last check
+ *   - Input: { watchlist?: string, update?: boolean }
+ *
+ * - get_cache_stats: Get response cache statistics
+ *   - Input: {}
+ *
+ * - clear_cache: Clear the response cache, optionally for one endpoint group
+ *   - Input: { category?: 'search' | 'masterview' | 'alerts' | 'score' }
+ *
+ * - batch: Run several tool calls in one request, with success or error recorded per call
+ *   - Input: { calls: { tool: string, arguments?: object }[] }
+ *
+ * ## Resources
+ *
+ * - offx://drug/{drug_id}: Drug masterview
+ * - offx://target/{target_id}/{action_id}: Target masterview for a target/action pair
+ * - offx://adverse-event/{adverse_event_id}: Targets associated with an adverse event
+ *
+ * Watched drugs and target/action pairs are listed as resources.
+ *
+ * ## Prompts
+ *
+ * - assess_drug_safety: { drug } - targets, scores, serious and confirmed alerts of a drug
+ * - compare_target_class_effects: { target, action_id? } - class effects across drugs on a target
+ * - summarize_recent_serious_alerts: { drug, since } - serious alerts for a drug since a date
+ * - review_watchlist: { watchlist? } - new and changed alerts for a watchlist
+ *
+ * Every tool that calls the OFFX API also accepts cache_mode: 'default' | 'bypass' | 'refresh'.
+ * Every tool returning JSON accepts fields: dotted paths of the response fields to keep.
+ * get_alerts, get_drugs, get_adverse_events and get_targets accept format: 'json' | 'csv' | 'tsv' | 'ndjson'
+ * (or the matching HTTP Accept header) to return one row per record.
+ * get_drugs, get_alerts, get_drug and get_target also accept all_pages, max_pages and max_items
+ * to walk pages and return merged results with a pagination summary.
+ * Tools taking OFFX IDs also accept drug_name, target_name or adverse_event_name, resolved
+ * through the search endpoints; ambiguous names return the list of candidates.
+ *
  * ## Usage
  *
- * - MCP mode: Communicate via stdio (default) or SSE (experimental)
- * - HTTP mode: POST to /search_drugs (other endpoints not yet implemented for HTTP)
+ * - MCP mode: Communicate via stdio (default) or over the network with TRANSPORT=sse
+ *   (Streamable HTTP at SSE_PATH, legacy SSE at SSE_PATH/sse, one session per client)
+ * - HTTP mode (USE_HTTP=true): POST /<tool name> with the arguments as JSON body for every tool,
+ *   POST /list_tools, GET /health and GET /metrics
  *
  * ## Example
  *
@@ -114,69 +206,52 @@
  *     "arguments": { "drug_id": "140448", "alert_type": "serious" }
  *   }
  *
- * See the tool schemas in the code for full details and examples.
+ * Each tool's definition is the single source of truth for MCP ListTools, HTTP /list_tools
+ * and runtime argument validation (see TOOLS). See the tool schemas in the code for full
+ * details and examples.
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
   McpError
 } from "@modelcontextprotocol/sdk/types.js";
-import { createError, JsonValue } from "./util.js";
-import fetchModule from 'node-fetch';
-const fetch = (globalThis.fetch || (fetchModule as any).default || fetchModule) as typeof globalThis.fetch;
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { createError, JsonValue, mapWithConcurrency, redactSecrets, registerSecret } from "./util.js";
+import { createOffxClient, currentRequestContext, OFFX_MODES, OffxAuthMode, OffxMode, OffxQuery, withRequestContext } from "./offx-client.js";
+import { BUNDLED_FIXTURES_DIR, createFixtureStore } from "./fixtures.js";
+import { collectPages } from "./pagination.js";
+import { AmbiguousNameError, NameResolver, pickCandidate, resolveNameArgs } from "./name-resolution.js";
+import { InvalidArgumentError, JsonSchema, validateArguments, validateCommaSeparatedNumbers, validateNumber, validateStringEnum } from "./schema-validation.js";
+import { CACHE_CATEGORIES, CACHE_MODES, CacheCategory, CacheMode, CacheStats, createResponseCache } from "./cache.js";
+import { parseJsonBody, startMcpHttpServer } from "./mcp-transport.js";
+import { invalidFieldPath, loadFieldDefaults, projectFields } from "./field-projection.js";
+import { createResponseBudget } from "./response-budget.js";
+import { FormattedOutput, formatFromAccept, formatRecords, OUTPUT_FORMATS, OutputFormat, schemaColumns } from "./output-format.js";
+import { addCodeLabels, ALERT_CODE_LABELS, AlertCodeField } from "./alert-codes.js";
+import { AdverseEventRef, compareDrugProfiles, DrugSafetyProfile } from "./drug-comparison.js";
+import { rankAdverseEvents, renderDrugSafetyReport } from "./safety-report.js";
+import { ALERT_FACETS, AlertFacet, summarizeAlertRecords } from "./alert-summary.js";
+import { buildAlertTimeline, TIMELINE_INTERVALS, TIMELINE_SPLITS, TimelineInterval, TimelineSplit } from "./alert-timeline.js";
+import { dedupeTargetPairs, rankTargetLiabilities, TargetLiability, TargetRelation } from "./target-liabilities.js";
+import { createWatchlistStore, diffAlerts, WatchItem, watchItemKey, WatchlistStore } from "./watchlist.js";
+import { PROMPTS, renderPrompt } from "./prompts.js";
+import { createLogger, LOG_FORMATS, LOG_LEVELS, LogFormat, Logger, LogLevel } from "./logger.js";
+import { createMetricsRegistry, MetricSnapshot, PROMETHEUS_CONTENT_TYPE } from "./metrics.js";
+import { ClientConfig, ClientRegistry, createAuditLog, loadClientRegistry, QuotaExceededError } from "./clients.js";
 import 'dotenv/config';
+import { randomUUID } from 'crypto';
 import http from 'http';
-
-/**
- * Logging utility for consistent log format across the application
- * Supports different log levels and structured logging
- */
-type LogLevel = 'error' | 'warn' | 'info' | 'debug';
-
-const logger = {
-  levels: {
-    error: 0,
-    warn: 1,
-    info: 2,
-    debug: 3
-  } as const,
-  level: (process.env.LOG_LEVEL || 'info') as LogLevel,
-  
-  formatMessage: (level: string, message: string, meta?: any) => {
-    const timestamp = new Date().toISOString();
-    const metaStr = meta ? ` | ${JSON.stringify(meta)}` : '';
-    return `[${timestamp}] ${level.toUpperCase()}: ${message}${metaStr}`;
-  },
-
-  error: (message: string, meta?: any) => {
-    if (logger.levels[logger.level as keyof typeof logger.levels] >= logger.levels.error) {
-      console.error(logger.formatMessage('error', message, meta));
-    }
-  },
-
-  warn: (message: string, meta?: any) => {
-    if (logger.levels[logger.level as keyof typeof logger.levels] >= logger.levels.warn) {
-      console.warn(logger.formatMessage('warn', message, meta));
-    }
-  },
-
-  info: (message: string, meta?: any) => {
-    if (logger.levels[logger.level as keyof typeof logger.levels] >= logger.levels.info) {
-      console.log(logger.formatMessage('info', message, meta));
-    }
-  },
-
-  debug: (message: string, meta?: any) => {
-    if (logger.levels[logger.level as keyof typeof logger.levels] >= logger.levels.debug) {
-      console.debug(logger.formatMessage('debug', message, meta));
-    }
-  }
-};
+import os from 'os';
+import path from 'path';
 
 /**
  * Type definitions for schema properties and parameters
@@ -196,13 +271,255 @@ const USE_HTTP = process.env.USE_HTTP === 'true';
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 3000;
 const TRANSPORT = process.env.TRANSPORT || 'stdio';
 const SSE_PATH = process.env.SSE_PATH || '/mcp';
+const MCP_SESSION_TIMEOUT_MS = process.env.MCP_SESSION_TIMEOUT_MS ? Number(process.env.MCP_SESSION_TIMEOUT_MS) : 30 * 60 * 1000;
 const OFFX_API_TOKEN = process.env.OFFX_API_TOKEN || '';
+const DEFAULT_OFFX_BASE_URL = 'https://api.targetsafety.info';
+const OFFX_BASE_URL = (process.env.OFFX_BASE_URL || DEFAULT_OFFX_BASE_URL).replace(/\/+$/, '');
+const OFFX_MODE = (process.env.OFFX_MODE || 'live') as OffxMode;
+const OFFX_FIXTURES_DIR = process.env.OFFX_FIXTURES_DIR || (OFFX_MODE === 'replay' ? BUNDLED_FIXTURES_DIR : undefined);
+const OFFX_AUTH_MODE = (process.env.OFFX_AUTH_MODE === 'header' ? 'header' : 'query') as OffxAuthMode;
+const OFFX_TIMEOUT_MS = process.env.OFFX_TIMEOUT_MS ? parseInt(process.env.OFFX_TIMEOUT_MS) : 30000;
+const OFFX_MAX_RETRIES = process.env.OFFX_MAX_RETRIES ? parseInt(process.env.OFFX_MAX_RETRIES) : 3;
+const OFFX_RETRY_BASE_DELAY_MS = process.env.OFFX_RETRY_BASE_DELAY_MS ? parseInt(process.env.OFFX_RETRY_BASE_DELAY_MS) : 500;
+const OFFX_RETRY_MAX_DELAY_MS = process.env.OFFX_RETRY_MAX_DELAY_MS ? parseInt(process.env.OFFX_RETRY_MAX_DELAY_MS) : 10000;
+const OFFX_MAX_PAGES = process.env.OFFX_MAX_PAGES ? parseInt(process.env.OFFX_MAX_PAGES) : 20;
+const OFFX_MAX_CONCURRENCY = process.env.OFFX_MAX_CONCURRENCY ? parseInt(process.env.OFFX_MAX_CONCURRENCY) : 4;
+const OFFX_CACHE_ENABLED = process.env.OFFX_CACHE_ENABLED !== 'false';
+const OFFX_CACHE_MAX_ENTRIES = process.env.OFFX_CACHE_MAX_ENTRIES ? parseInt(process.env.OFFX_CACHE_MAX_ENTRIES) : 1000;
+const OFFX_CACHE_DIR = process.env.OFFX_CACHE_DIR || undefined;
+const OFFX_FIELDS_CONFIG = process.env.OFFX_FIELDS_CONFIG || undefined;
+const OFFX_MAX_RESPONSE_CHARS = process.env.OFFX_MAX_RESPONSE_CHARS ? parseInt(process.env.OFFX_MAX_RESPONSE_CHARS) : 0;
+const OFFX_MAX_RESPONSE_TOKENS = process.env.OFFX_MAX_RESPONSE_TOKENS ? parseInt(process.env.OFFX_MAX_RESPONSE_TOKENS) : 0;
+const OFFX_CURSOR_TTL_SECONDS = process.env.OFFX_CURSOR_TTL_SECONDS ? parseInt(process.env.OFFX_CURSOR_TTL_SECONDS) : 10 * 60;
+const OFFX_WATCHLIST_FILE = process.env.OFFX_WATCHLIST_FILE || path.join(os.homedir(), '.offx-mcp', 'watchlists.json');
+const LOG_LEVEL = (process.env.LOG_LEVEL || 'info') as LogLevel;
+const LOG_FORMAT = (process.env.LOG_FORMAT || 'text') as LogFormat;
+const LOG_FILE = process.env.LOG_FILE || undefined;
+const OFFX_CLIENTS_FILE = process.env.OFFX_CLIENTS_FILE || undefined;
+const OFFX_AUDIT_DIR = process.env.OFFX_AUDIT_DIR || path.join(os.homedir(), '.offx-mcp', 'audit');
+// Cache TTLs in seconds per endpoint group
+const OFFX_CACHE_TTL: Record<CacheCategory, number> = {
+  search: process.env.OFFX_CACHE_TTL_SEARCH ? parseInt(process.env.OFFX_CACHE_TTL_SEARCH) : 24 * 60 * 60,
+  masterview: process.env.OFFX_CACHE_TTL_MASTERVIEW ? parseInt(process.env.OFFX_CACHE_TTL_MASTERVIEW) : 6 * 60 * 60,
+  alerts: process.env.OFFX_CACHE_TTL_ALERTS ? parseInt(process.env.OFFX_CACHE_TTL_ALERTS) : 60 * 60,
+  score: process.env.OFFX_CACHE_TTL_SCORE ? parseInt(process.env.OFFX_CACHE_TTL_SCORE) : 6 * 60 * 60
+};
 
 // Validate required environment variables
-if (!OFFX_API_TOKEN) {
+if (!LOG_LEVELS.includes(LOG_LEVEL)) {
+  console.error(`Invalid LOG_LEVEL: ${LOG_LEVEL} (expected ${LOG_LEVELS.join(', ')})`);
+  process.exit(1);
+}
+if (!LOG_FORMATS.includes(LOG_FORMAT)) {
+  console.error(`Invalid LOG_FORMAT: ${LOG_FORMAT} (expected ${LOG_FORMATS.join(', ')})`);
+  process.exit(1);
+}
+if (!OFFX_MODES.includes(OFFX_MODE)) {
+  console.error(`Invalid OFFX_MODE: ${OFFX_MODE} (expected ${OFFX_MODES.join(', ')})`);
+  process.exit(1);
+}
+if (!Number.isInteger(MCP_SESSION_TIMEOUT_MS) || MCP_SESSION_TIMEOUT_MS <= 0) {
+  console.error(`Invalid MCP_SESSION_TIMEOUT_MS: ${process.env.MCP_SESSION_TIMEOUT_MS} (expected a positive integer)`);
+  process.exit(1);
+}
+if (OFFX_MODE === 'record' && !OFFX_FIXTURES_DIR) {
+  console.error('OFFX_MODE=record requires OFFX_FIXTURES_DIR');
+  process.exit(1);
+}
+// API keys, quotas and audit logs are enforced by the HTTP mode routes only; the MCP
+// transports would serve every caller unchecked, so they cannot be combined with a clients file
+if (OFFX_CLIENTS_FILE && !USE_HTTP) {
+  console.error(`OFFX_CLIENTS_FILE requires USE_HTTP=true and is not supported with TRANSPORT=${TRANSPORT}`);
+  process.exit(1);
+}
+
+// HTTP clients allowed to call the server, each with its own OFFX token and quota when configured
+let clientRegistry: ClientRegistry | undefined;
+if (OFFX_CLIENTS_FILE) {
+  try {
+    clientRegistry = loadClientRegistry(OFFX_CLIENTS_FILE);
+  } catch (error) {
+    console.error(`Invalid OFFX_CLIENTS_FILE: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// A token is only needed to reach the real OFFX API; mock servers and replay mode work without one,
+// and so does a deployment where every client brings its own token
+if (!OFFX_API_TOKEN && OFFX_MODE !== 'replay' && OFFX_BASE_URL === DEFAULT_OFFX_BASE_URL
+  && !clientRegistry?.clients.every(client => client.offxToken)) {
   console.error('Missing required environment variable: OFFX_API_TOKEN');
   process.exit(1);
 }
+registerSecret(OFFX_API_TOKEN);
+clientRegistry?.clients.forEach(client => registerSecret(client.offxToken || ''));
+
+// Diagnostics go to stderr or LOG_FILE; stdout is reserved for MCP messages in stdio mode
+let logger: Logger;
+try {
+  logger = createLogger({ level: LOG_LEVEL, format: LOG_FORMAT, file: LOG_FILE });
+} catch (error) {
+  console.error(`Cannot open LOG_FILE: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+// Per-client record of HTTP tool calls, kept when clients are configured
+const auditLog = clientRegistry ? createAuditLog(OFFX_AUDIT_DIR, logger) : undefined;
+
+// Default field projections per tool, applied when a call does not pass fields
+let DEFAULT_FIELDS: Record<string, string[]> = {};
+if (OFFX_FIELDS_CONFIG) {
+  try {
+    DEFAULT_FIELDS = loadFieldDefaults(OFFX_FIELDS_CONFIG);
+  } catch (error) {
+    console.error(`Invalid OFFX_FIELDS_CONFIG: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// Response cache shared by all OFFX calls
+const responseCache = OFFX_CACHE_ENABLED
+  ? createResponseCache({
+    maxEntries: OFFX_CACHE_MAX_ENTRIES,
+    ttlMs: Object.fromEntries(CACHE_CATEGORIES.map(category => [category, OFFX_CACHE_TTL[category] * 1000])) as Record<CacheCategory, number>,
+    diskDir: OFFX_CACHE_DIR,
+    logger
+  })
+  : undefined;
+
+// Slices tool responses over the configured size; a token is counted as about 4 characters
+const responseLimits = [OFFX_MAX_RESPONSE_CHARS, OFFX_MAX_RESPONSE_TOKENS * 4].filter(limit => limit > 0);
+const responseBudget = createResponseBudget({
+  maxChars: responseLimits.length > 0 ? Math.min(...responseLimits) : 0,
+  cursorTtlMs: OFFX_CURSOR_TTL_SECONDS * 1000,
+  maxCursors: 100
+});
+
+// Watchlists of drugs and target/action pairs, with the alerts seen at the last check.
+// Each authenticated HTTP client has its own file next to OFFX_WATCHLIST_FILE.
+const watchlistStores = new Map<string, WatchlistStore>();
+function currentWatchlists(): WatchlistStore {
+  const client = currentRequestContext().client || '';
+  let store = watchlistStores.get(client);
+  if (!store) {
+    store = createWatchlistStore(client ? OFFX_WATCHLIST_FILE.replace(/(\.json)?$/, `.${client}$1`) : OFFX_WATCHLIST_FILE);
+    watchlistStores.set(client, store);
+  }
+  return store;
+}
+
+// Prometheus metrics, served at /metrics in HTTP mode
+const metrics = createMetricsRegistry();
+const toolCallsMetric = metrics.counter('offx_mcp_tool_calls_total', 'Tool calls by tool and status (ok, invalid_argument, ambiguous_name, quota_exceeded or error)');
+const upstreamLatencyMetric = metrics.histogram(
+  'offx_mcp_upstream_request_duration_seconds',
+  'OFFX API request latency including retries, by endpoint and HTTP status ("error" when no response was received)',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+const httpInFlightMetric = metrics.gauge('offx_mcp_http_requests_in_flight', 'HTTP tool requests being handled');
+if (responseCache) {
+  metrics.collect(() => cacheMetrics(responseCache.stats()));
+}
+
+// Shared OFFX API client used by every upstream call
+const offx = createOffxClient({
+  baseUrl: OFFX_BASE_URL,
+  token: OFFX_API_TOKEN,
+  authMode: OFFX_AUTH_MODE,
+  timeoutMs: OFFX_TIMEOUT_MS,
+  maxRetries: OFFX_MAX_RETRIES,
+  retryBaseDelayMs: OFFX_RETRY_BASE_DELAY_MS,
+  retryMaxDelayMs: OFFX_RETRY_MAX_DELAY_MS,
+  cache: responseCache,
+  mode: OFFX_MODE,
+  fixtures: OFFX_FIXTURES_DIR ? createFixtureStore(OFFX_FIXTURES_DIR) : undefined,
+  logger,
+  onRequest: ({ endpoint, status, latencyMs }) => upstreamLatencyMetric.observe(latencyMs / 1000, { endpoint, status: status ? String(status) : 'error' })
+});
+
+// Shared cache_mode argument accepted by every tool that calls the OFFX API
+const CACHE_MODE_PROPERTY = {
+  type: 'string',
+  description: 'Response cache behavior (optional): "default" serves fresh cached responses, "bypass" skips the cache, "refresh" refetches and updates the cache',
+  enum: CACHE_MODES,
+  default: 'default'
+};
+
+// Shared format argument for tools returning lists of records
+const FORMAT_PROPERTY = {
+  type: 'string',
+  description: 'Output format (optional): "json", or "csv", "tsv" or "ndjson" for one row per record with nested lists flattened',
+  enum: OUTPUT_FORMATS,
+  default: 'json'
+};
+
+// Shared fields argument trimming a response to the listed paths
+const FIELDS_PROPERTY = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'Dotted paths of the response fields to return, e.g. ["drug.drug_main_name", "alerts.adverse_event_id"] (optional; "*" returns every field, overriding the server default)'
+};
+
+// Shared cursor argument fetching the next slice of a response over the size limit
+const CURSOR_PROPERTY = {
+  type: 'string',
+  description: 'Continuation cursor from a truncated response (optional). Returns the next slice of that response; other arguments are ignored'
+};
+
+// Shared pagination arguments for tools backed by paginated OFFX endpoints
+const PAGINATION_PROPERTIES = {
+  all_pages: { type: 'boolean', description: 'Fetch all pages starting at page and merge the results (optional, default: false)' },
+  max_pages: { type: 'number', description: `Maximum number of pages to fetch, implies all_pages (optional, capped at ${OFFX_MAX_PAGES})` },
+  max_items: { type: 'number', description: 'Stop once this many items have been collected, implies all_pages (optional)' }
+};
+
+// Name arguments accepted in place of OFFX IDs
+type NameField = 'drug_name' | 'target_name' | 'adverse_event_name';
+
+const NAME_PROPERTIES: Record<NameField, JsonSchema> = {
+  drug_name: { type: 'string', description: 'Drug name, resolved to drug_id via search_drugs (optional, use instead of drug_id)' },
+  target_name: { type: 'string', description: 'Target name, resolved to target_id via search_targets (optional, use instead of target_id)' },
+  adverse_event_name: { type: 'string', description: 'Adverse event name, resolved to adverse_event_id via search_adverse_events (optional, use instead of adverse_event_id)' }
+};
+
+// Coded alert filters shared by get_alerts, get_drug and get_target; codes or their labels are accepted
+const ALERT_CODE_PROPERTIES: Record<AlertCodeField, JsonSchema> = {
+  ref_source_type: { type: 'string', description: 'Reference source type (optional, comma separated numbers or labels, e.g. 14 or "Regulatory Agency Communication")',
+    enum: Object.keys(ALERT_CODE_LABELS.ref_source_type),
+    enumDescriptions: ALERT_CODE_LABELS.ref_source_type,
+    format: 'Comma separated number(s), e.g. 9 or 9,10,11'
+  },
+  alert_type: { type: 'string', description: 'Alert Type (optional, comma separated number or label): 1 = Class Alert, 2 = Drug Alert, 1,2 = both', enum: Object.keys(ALERT_CODE_LABELS.alert_type), enumDescriptions: ALERT_CODE_LABELS.alert_type, format: 'Comma separated number(s), e.g. 1 or 1,2', examples: ['1','2','1,2','Drug Alert'] },
+  alert_phase: { type: 'string', description: 'Alert Phase (optional, comma separated numbers or labels, e.g. 7 or "Phase II")',
+    enum: Object.keys(ALERT_CODE_LABELS.alert_phase),
+    enumDescriptions: ALERT_CODE_LABELS.alert_phase,
+    format: 'Comma separated number(s), e.g. 1 or 1,2,3',
+    examples: ['1','1,2','1,2,3,4,5,6','Phase I, Phase II']
+  },
+  alert_level_evidence: { type: 'string', description: 'Level of evidence (optional, comma separated numbers or labels)',
+    enum: Object.keys(ALERT_CODE_LABELS.alert_level_evidence),
+    enumDescriptions: ALERT_CODE_LABELS.alert_level_evidence,
+    format: 'Comma separated number(s), e.g. 1 or 1,2',
+    examples: ['1','2','1,2','Suspected']
+  },
+  alert_onoff_target: { type: 'string', description: 'On/Off target (optional, comma separated numbers or labels)',
+    enum: Object.keys(ALERT_CODE_LABELS.alert_onoff_target),
+    enumDescriptions: ALERT_CODE_LABELS.alert_onoff_target,
+    format: 'Comma separated number(s), e.g. 1 or 1,2',
+    examples: ['1','2','1,2','Off-Target']
+  }
+};
+
+// Filters accepted by get_alerts, also applied by the tools that aggregate alerts
+const ALERT_FILTER_PROPERTIES: Record<string, JsonSchema> = {
+  adverse_event_id: { type: 'string', description: 'Adverse Event ID (optional)' },
+  ...ALERT_CODE_PROPERTIES,
+  alert_severity: { type: 'string', description: 'Alert Severity (optional, string: yes or no)', enum: ['yes','no'], examples: ['yes','no'] },
+  alert_causality: { type: 'string', description: 'Alert Causality (optional)' },
+  alert_species: { type: 'string', description: 'Alert Species (optional)' },
+  alert_date_from: { type: 'string', description: 'Date from (optional, YYYY-MM-DD)' },
+  alert_date_to: { type: 'string', description: 'Date to (optional, YYYY-MM-DD)' }
+};
 
 // Shared error schema
 const ERROR_SCHEMA = {
@@ -221,7 +538,10 @@ const SEARCH_DRUGS_TOOL = {
   inputSchema: {
     type: 'object',
     properties: {
-      drug: { type: 'string', description: 'Drug name (required)' }
+      drug: { type: 'string', description: 'Drug name (required)' },
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
     required: ['drug']
   },
@@ -266,11 +586,20 @@ const GET_DRUGS_TOOL = {
       target_id: { type: 'string', description: 'Target identifier (OFFX target_id)' },
       action_id: { type: 'string', description: 'Action identifier (OFFX action_id)' },
       adverse_event_id: { type: 'string', description: 'Adverse event identifier (OFFX adverse_event_id)' },
-      page: { type: 'number', description: 'Page number (default: 1)', default: 1 }
+      page: { type: 'number', description: 'Page number (default: 1)', default: 1 },
+      ...PAGINATION_PROPERTIES,
+      target_name: NAME_PROPERTIES.target_name,
+      adverse_event_name: NAME_PROPERTIES.adverse_event_name,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
     oneOf: [
       { required: ['target_id', 'action_id'], not: { required: ['adverse_event_id'] } },
-      { required: ['adverse_event_id'], not: { required: ['target_id'] } }
+      { required: ['target_name', 'action_id'], not: { required: ['adverse_event_id'] } },
+      { required: ['adverse_event_id'], not: { required: ['target_id'] } },
+      { required: ['adverse_event_name'], not: { required: ['target_id'] } }
     ]
   },
   responseSchema: {
@@ -319,47 +648,24 @@ const GET_ALERTS_TOOL = {
       drug_id: { type: 'string', description: 'Drug identifier (OFFX drug_id, optional)' },
       target_id: { type: 'string', description: 'Target identifier (OFFX target_id, optional)' },
       action_id: { type: 'string', description: 'Action ID (optional, for target alerts)' },
-      page: { type: 'number', description: 'Page number (required)' },
-      adverse_event_id: { type: 'string', description: 'Adverse Event ID (optional)' },
-      ref_source_type: { type: 'string', description: 'Reference source type (optional, comma separated number)',
-        enum: ['9','10','11','27','24','22','23','25','12','13','14','15','16','17','18','19','20','21','26'],
-        enumDescriptions: {
-          '9': 'Congress', '10': 'Website Reference', '11': 'Company Communication', '27': 'Health Organization', '24': 'Database', '22': 'DailyMed', '23': 'Regulatory Agency Briefing', '25': 'Patent', '12': 'Medical Society Communication', '13': 'Research Institution Communication', '14': 'Regulatory Agency Communication', '15': 'Regulatory Agency Guideline', '16': 'Patient Advocacy Group communication', '17': 'Other', '18': 'Book', '19': 'Journal', '20': 'Congress Alert', '21': 'Congress & Conferences', '26': 'Clinical Trial Registry'
-        },
-        format: 'Comma separated number(s), e.g. 9 or 9,10,11'
-      },
-      alert_type: { type: 'string', description: 'Alert Type (optional, comma separated number): 1 = Class Alert, 2 = Drug Alert, 1,2 = both', enum: ['1','2','1,2'], enumDescriptions: { '1': 'Class Alert', '2': 'Drug Alert', '1,2': 'Both' }, format: 'Comma separated number(s), e.g. 1 or 1,2', examples: ['1','2','1,2'] },
-      alert_phase: { type: 'string', description: 'Alert Phase (optional, comma separated number)',
-        enum: ['1','2','3','4','5','6','7','8','9','10','11','12'],
-        enumDescriptions: {
-          '1': 'Clinical/Postmarketing', '2': 'Preclinical', '3': 'Clinical', '4': 'Postmarketing', '5': 'Target Discovery', '6': 'Phase I', '7': 'Phase II', '8': 'Phase III', '9': 'Phase IV', '10': 'Phase I/II', '11': 'Phase II/III', '12': 'Phase III/IV'
-        },
-        format: 'Comma separated number(s), e.g. 1 or 1,2,3',
-        examples: ['1','1,2','1,2,3,4,5,6']
-      },
-      alert_level_evidence: { type: 'string', description: 'Level of evidence (optional, comma separated number)',
-        enum: ['1','2','3'],
-        enumDescriptions: { '1': 'Confirmed/Reported', '2': 'Suspected', '3': 'Refuted/Not Associated' },
-        format: 'Comma separated number(s), e.g. 1 or 1,2',
-        examples: ['1','2','1,2']
-      },
-      alert_onoff_target: { type: 'string', description: 'On/Off target (optional, comma separated number)',
-        enum: ['1','2','3'],
-        enumDescriptions: { '1': 'On-Target', '2': 'Off-Target', '3': 'Not Specified' },
-        format: 'Comma separated number(s), e.g. 1 or 1,2',
-        examples: ['1','2','1,2']
-      },
-      alert_severity: { type: 'string', description: 'Alert Severity (optional, string: yes or no)', enum: ['yes','no'], examples: ['yes','no'] },
-      alert_causality: { type: 'string', description: 'Alert Causality (optional)' },
-      alert_species: { type: 'string', description: 'Alert Species (optional)' },
-      alert_date_from: { type: 'string', description: 'Date from (optional, YYYY-MM-DD)' },
-      alert_date_to: { type: 'string', description: 'Date to (optional, YYYY-MM-DD)' },
+      page: { type: 'number', description: 'Page number (default: 1)', default: 1 },
+      ...ALERT_FILTER_PROPERTIES,
       order_by_date: { type: 'string', description: 'Order by date (optional)' },
-      order_by_adv: { type: 'string', description: 'Order by adverse event (optional)' }
+      order_by_adv: { type: 'string', description: 'Order by adverse event (optional)' },
+      ...PAGINATION_PROPERTIES,
+      drug_name: NAME_PROPERTIES.drug_name,
+      target_name: NAME_PROPERTIES.target_name,
+      adverse_event_name: NAME_PROPERTIES.adverse_event_name,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
     anyOf: [
       { required: ['drug_id', 'page'] },
-      { required: ['target_id', 'page'] }
+      { required: ['drug_name', 'page'] },
+      { required: ['target_id', 'page'] },
+      { required: ['target_name', 'page'] }
     ]
   },
   responseSchema: {
@@ -422,11 +728,19 @@ const GET_SCORE_TOOL = {
       drug_id: { type: 'string', description: 'Drug identifier (OFFX drug_id, required for drug score)' },
       adverse_event_id: { type: 'string', description: 'Adverse event identifier (optional)' },
       target_id: { type: 'string', description: 'Target identifier (OFFX target_id, required for target/class score)' },
-      action_id: { type: 'string', description: 'Action identifier (OFFX action_id, required for target/class score)' }
+      action_id: { type: 'string', description: 'Action identifier (OFFX action_id, required for target/class score)' },
+      drug_name: NAME_PROPERTIES.drug_name,
+      target_name: NAME_PROPERTIES.target_name,
+      adverse_event_name: NAME_PROPERTIES.adverse_event_name,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
     anyOf: [
       { required: ['drug_id'] },
-      { required: ['target_id', 'action_id'] }
+      { required: ['drug_name'] },
+      { required: ['target_id', 'action_id'] },
+      { required: ['target_name', 'action_id'] }
     ]
   },
   responseSchema: {
@@ -471,7 +785,10 @@ const SEARCH_ADVERSE_EVENTS_TOOL = {
   inputSchema: {
     type: 'object',
     properties: {
-      adverse_event: { type: 'string', description: 'Adverse event name (min 3 chars, required)' }
+      adverse_event: { type: 'string', description: 'Adverse event name (min 3 chars, required)' },
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
     required: ['adverse_event']
   },
@@ -518,11 +835,19 @@ const GET_ADVERSE_EVENTS_TOOL = {
     type: 'object',
     properties: {
       drug_id: { type: 'string', description: 'Drug identifier (OFFX drug_id, optional)' },
-      target_id: { type: 'string', description: 'Target identifier (OFFX target_id, optional)' }
+      target_id: { type: 'string', description: 'Target identifier (OFFX target_id, optional)' },
+      drug_name: NAME_PROPERTIES.drug_name,
+      target_name: NAME_PROPERTIES.target_name,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
     anyOf: [
       { required: ['drug_id'] },
-      { required: ['target_id'] }
+      { required: ['drug_name'] },
+      { required: ['target_id'] },
+      { required: ['target_name'] }
     ]
   },
   responseSchema: {
@@ -575,35 +900,26 @@ const GET_DRUG_TOOL = {
       drug_id: { type: 'string', description: 'Drug identifier (OFFX drug_id, required)' },
       page: { type: 'number', description: 'Page number (required)' },
       adverse_event_id: { type: 'string', description: 'Adverse Event ID (optional)' },
-      ref_source_type: { type: 'string', description: 'Reference source type (optional, comma separated number)',
-        enum: ['9','10','11','27','24','22','23','25','12','13','14','15','16','17','18','19','20','21','26'],
-        enumDescriptions: {
-          '9': 'Congress', '10': 'Website Reference', '11': 'Company Communication', '27': 'Health Organization', '24': 'Database', '22': 'DailyMed', '23': 'Regulatory Agency Briefing', '25': 'Patent', '12': 'Medical Society Communication', '13': 'Research Institution Communication', '14': 'Regulatory Agency Communication', '15': 'Regulatory Agency Guideline', '16': 'Patient Advocacy Group communication', '17': 'Other', '18': 'Book', '19': 'Journal', '20': 'Congress Alert', '21': 'Congress & Conferences', '26': 'Clinical Trial Registry'
-        },
-        format: 'Comma separated number(s), e.g. 9 or 9,10,11'
-      },
-      alert_type: { type: 'string', description: 'Alert Type (optional, comma separated number): 1 = Class Alert, 2 = Drug Alert, 1,2 = both', enum: ['1','2','1,2'], enumDescriptions: { '1': 'Class Alert', '2': 'Drug Alert', '1,2': 'Both' }, format: 'Comma separated number(s), e.g. 1 or 1,2', examples: ['1','2','1,2'] },
-      alert_phase: { type: 'string', description: 'Alert Phase (optional, comma separated number)',
-        enum: ['1','2','3','4','5','6','7','8','9','10','11','12'],
-        enumDescriptions: {
-          '1': 'Clinical/Postmarketing', '2': 'Preclinical', '3': 'Clinical', '4': 'Postmarketing', '5': 'Target Discovery', '6': 'Phase I', '7': 'Phase II', '8': 'Phase III', '9': 'Phase IV', '10': 'Phase I/II', '11': 'Phase II/III', '12': 'Phase III/IV'
-        },
-        format: 'Comma separated number(s), e.g. 1 or 1,2,3',
-        examples: ['1','1,2','1,2,3,4,5,6']
-      },
-      alert_level_evidence: { type: 'string', description: 'Level of evidence (optional, comma separated number)',
-        enum: ['1','2','3'],
-        enumDescriptions: { '1': 'Confirmed/Reported', '2': 'Suspected', '3': 'Refuted/Not Associated' },
-        format: 'Comma separated number(s), e.g. 1 or 1,2',
-        examples: ['1','2','1,2']
-      },
+      ref_source_type: ALERT_CODE_PROPERTIES.ref_source_type,
+      alert_type: ALERT_CODE_PROPERTIES.alert_type,
+      alert_phase: ALERT_CODE_PROPERTIES.alert_phase,
+      alert_level_evidence: ALERT_CODE_PROPERTIES.alert_level_evidence,
       alert_severity: { type: 'string', description: 'Alert Severity (optional, string: yes or no)', enum: ['yes','no'], examples: ['yes','no'] },
       alert_causality: { type: 'string', description: 'Alert Causality (optional)' },
       alert_species: { type: 'string', description: 'Alert Species (optional)' },
       alert_date_from: { type: 'string', description: 'Date from (optional, YYYY-MM-DD)' },
-      alert_date_to: { type: 'string', description: 'Date to (optional, YYYY-MM-DD)' }
+      alert_date_to: { type: 'string', description: 'Date to (optional, YYYY-MM-DD)' },
+      ...PAGINATION_PROPERTIES,
+      drug_name: NAME_PROPERTIES.drug_name,
+      adverse_event_name: NAME_PROPERTIES.adverse_event_name,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
-    required: ['drug_id', 'page']
+    anyOf: [
+      { required: ['drug_id', 'page'] },
+      { required: ['drug_name', 'page'] }
+    ]
   },
   responseSchema: {
     type: 'object',
@@ -645,7 +961,10 @@ const SEARCH_TARGETS_TOOL = {
   inputSchema: {
     type: 'object',
     properties: {
-      target: { type: 'string', description: 'Target name (required)' }
+      target: { type: 'string', description: 'Target name (required)' },
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
     required: ['target']
   },
@@ -694,43 +1013,29 @@ const GET_TARGET_TOOL = {
     properties: {
       target_id: { type: 'string', description: 'Target identifier (OFFX target_id, required)' },
       action_id: { type: 'string', description: 'Action identifier (OFFX action_id, required)' },
-      page: { type: 'number', description: 'Page number (required)' },
+      page: { type: 'number', description: 'Page number (default: 1)', default: 1 },
       adverse_event_id: { type: 'string', description: 'Adverse Event ID (optional)' },
-      ref_source_type: { type: 'string', description: 'Reference source type (optional, comma separated number)',
-        enum: ['9','10','11','27','24','22','23','25','12','13','14','15','16','17','18','19','20','21','26'],
-        enumDescriptions: {
-          '9': 'Congress', '10': 'Website Reference', '11': 'Company Communication', '27': 'Health Organization', '24': 'Database', '22': 'DailyMed', '23': 'Regulatory Agency Briefing', '25': 'Patent', '12': 'Medical Society Communication', '13': 'Research Institution Communication', '14': 'Regulatory Agency Communication', '15': 'Regulatory Agency Guideline', '16': 'Patient Advocacy Group communication', '17': 'Other', '18': 'Book', '19': 'Journal', '20': 'Congress Alert', '21': 'Congress & Conferences', '26': 'Clinical Trial Registry'
-        },
-        format: 'Comma separated number(s), e.g. 9 or 9,10,11'
-      },
-      alert_type: { type: 'string', description: 'Alert Type (optional, comma separated number): 1 = Class Alert, 2 = Drug Alert, 1,2 = both', enum: ['1','2','1,2'], enumDescriptions: { '1': 'Class Alert', '2': 'Drug Alert', '1,2': 'Both' }, format: 'Comma separated number(s), e.g. 1 or 1,2', examples: ['1','2','1,2'] },
-      alert_phase: { type: 'string', description: 'Alert Phase (optional, comma separated number)',
-        enum: ['1','2','3','4','5','6','7','8','9','10','11','12'],
-        enumDescriptions: {
-          '1': 'Clinical/Postmarketing', '2': 'Preclinical', '3': 'Clinical', '4': 'Postmarketing', '5': 'Target Discovery', '6': 'Phase I', '7': 'Phase II', '8': 'Phase III', '9': 'Phase IV', '10': 'Phase I/II', '11': 'Phase II/III', '12': 'Phase III/IV'
-        },
-        format: 'Comma separated number(s), e.g. 1 or 1,2,3',
-        examples: ['1','1,2','1,2,3,4,5,6']
-      },
-      alert_level_evidence: { type: 'string', description: 'Level of evidence (optional, comma separated number)',
-        enum: ['1','2','3'],
-        enumDescriptions: { '1': 'Confirmed/Reported', '2': 'Suspected', '3': 'Refuted/Not Associated' },
-        format: 'Comma separated number(s), e.g. 1 or 1,2',
-        examples: ['1','2','1,2']
-      },
-      alert_onoff_target: { type: 'string', description: 'On/Off target (optional, comma separated number)',
-        enum: ['1','2','3'],
-        enumDescriptions: { '1': 'On-Target', '2': 'Off-Target', '3': 'Not Specified' },
-        format: 'Comma separated number(s), e.g. 1 or 1,2',
-        examples: ['1','2','1,2']
-      },
+      ref_source_type: ALERT_CODE_PROPERTIES.ref_source_type,
+      alert_type: ALERT_CODE_PROPERTIES.alert_type,
+      alert_phase: ALERT_CODE_PROPERTIES.alert_phase,
+      alert_level_evidence: ALERT_CODE_PROPERTIES.alert_level_evidence,
+      alert_onoff_target: ALERT_CODE_PROPERTIES.alert_onoff_target,
       alert_severity: { type: 'string', description: 'Alert Severity (optional, string: yes or no)', enum: ['yes','no'], examples: ['yes','no'] },
       alert_causality: { type: 'string', description: 'Alert Causality (optional)' },
       alert_species: { type: 'string', description: 'Alert Species (optional)' },
       alert_date_from: { type: 'string', description: 'Date from (optional, YYYY-MM-DD)' },
-      alert_date_to: { type: 'string', description: 'Date to (optional, YYYY-MM-DD)' }
+      alert_date_to: { type: 'string', description: 'Date to (optional, YYYY-MM-DD)' },
+      ...PAGINATION_PROPERTIES,
+      target_name: NAME_PROPERTIES.target_name,
+      adverse_event_name: NAME_PROPERTIES.adverse_event_name,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
-    required: ['target_id', 'action_id', 'page']
+    anyOf: [
+      { required: ['target_id', 'action_id', 'page'] },
+      { required: ['target_name', 'action_id', 'page'] }
+    ]
   },
   responseSchema: {
     type: 'object',
@@ -778,12 +1083,20 @@ const GET_TARGETS_TOOL = {
     type: 'object',
     properties: {
       drug_id: { type: 'string', description: 'Drug identifier (OFFX drug_id, required for primary/secondary targets)' },
-      type: { type: 'string', enum: ['primary', 'secondary'], description: 'Type of targets to fetch: "primary" or "secondary" (required if drug_id is used)' },
-      adverse_event_id: { type: 'string', description: 'Adverse event identifier (OFFX adverse_event_id, required for adverse event search)' }
+      type: { type: 'string', enum: ['primary', 'secondary'], description: 'Type of targets to fetch: "primary" or "secondary" (default: "primary")', default: 'primary' },
+      adverse_event_id: { type: 'string', description: 'Adverse event identifier (OFFX adverse_event_id, required for adverse event search)' },
+      drug_name: NAME_PROPERTIES.drug_name,
+      adverse_event_name: NAME_PROPERTIES.adverse_event_name,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
     },
     anyOf: [
       { required: ['drug_id', 'type'] },
-      { required: ['adverse_event_id'] }
+      { required: ['drug_name', 'type'] },
+      { required: ['adverse_event_id'] },
+      { required: ['adverse_event_name'] }
     ]
   },
   responseSchema: {
@@ -832,98 +1145,620 @@ const GET_TARGETS_TOOL = {
   ]
 };
 
-async function searchDrugsByName({ drug }: { drug: string }) {
-  if (!drug) {
-    throw new Error('drug is required');
-  }
-  const query = new URLSearchParams({ drug, token: OFFX_API_TOKEN });
-  const url = `https://api.targetsafety.info/api/drug/search/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
+// Tool definition for compare_drugs
+const COMPARE_DRUGS_TOOL = {
+  name: 'compare_drugs',
+  description: 'Compare the safety profiles of several drugs side by side. Combines each drug\'s adverse events, drug score and alerts into one table showing adverse events shared by all drugs and those unique to each drug, with per-drug scores and alert counts per adverse event. Use for questions like "How does drug A\'s safety profile compare to drugs B and C?"',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      drug_ids: { type: 'array', items: { type: 'string' }, description: 'Drug identifiers to compare (OFFX drug_id, 2 to 10 drugs in total with drug_names)' },
+      drug_names: { type: 'array', items: { type: 'string' }, description: 'Drug names, resolved to drug_id via search_drugs (optional, use instead of or together with drug_ids)' },
+      max_adverse_events: { type: 'number', description: 'Maximum number of adverse event rows in the table, shared events first (optional, default: 25, max: 100)', default: 25 },
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
+    },
+    anyOf: [
+      { required: ['drug_ids'] },
+      { required: ['drug_names'] }
+    ]
+  },
+  responseSchema: {
+    type: 'object',
+    properties: {
+      drugs: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            drug_id: { type: 'string' },
+            score: { type: 'number' },
+            adverse_events: { type: 'number' },
+            alerts: { type: 'number' },
+            alerts_complete: { type: 'boolean' }
+          }
+        }
+      },
+      shared_adverse_events: { type: 'array' },
+      unique_adverse_events: { type: 'object' },
+      table: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            adverse_event_id: { type: 'string' },
+            adverse_event: { type: 'string' },
+            shared: { type: 'boolean' },
+            drugs_reporting: { type: 'number' },
+            total_alerts: { type: 'number' },
+            by_drug: { type: 'object' }
+          }
+        }
+      },
+      rows_omitted: { type: 'number' }
+    },
+    required: ['drugs', 'shared_adverse_events', 'unique_adverse_events', 'table']
+  },
+  examples: [
+    {
+      description: 'Compare two drugs',
+      usage: '{ "drug_ids": ["99402", "11204"] }',
+      response: '{ "drugs": [ { "drug_id": "99402", "score": 0.9, "adverse_events": 12, "alerts": 40, "alerts_complete": true }, { "drug_id": "11204", "score": 0.4, "adverse_events": 5, "alerts": 9, "alerts_complete": true } ], "shared_adverse_events": [ { "adverse_event_id": "10001551", "adverse_event": "Anaemia" } ], "unique_adverse_events": { "99402": [], "11204": [] }, "table": [ { "adverse_event_id": "10001551", "adverse_event": "Anaemia", "shared": true, "drugs_reporting": 2, "total_alerts": 7, "by_drug": { "99402": { "present": true, "alerts": 5, "score": 0.8 }, "11204": { "present": true, "alerts": 2, "score": 0.3 } } } ], "rows_omitted": 0 }'
     }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
-  }
-  return await response.json();
-}
+  ]
+};
 
-async function getDrugs(args: { target_id?: string, action_id?: string, adverse_event_id?: string, page?: number }) {
-  const { target_id, action_id, adverse_event_id, page } = args;
-  const hasTarget = !!target_id;
-  const hasAction = !!action_id;
-  const hasAdve = !!adverse_event_id;
-  if ((hasTarget && hasAction && !hasAdve) || (!hasTarget && !hasAction && hasAdve)) {
-    // valid
-  } else {
-    throw new Error('You must provide either both target_id and action_id, or only adverse_event_id');
-  }
-  const pageNum = page ?? 1;
-  let query: URLSearchParams;
-  let url: string;
-  if (hasTarget && hasAction) {
-    query = new URLSearchParams({ target_id: String(target_id), action_id: String(action_id), page: String(pageNum), token: OFFX_API_TOKEN });
-    url = `https://api.targetsafety.info/api/drug/search/param?${query.toString()}`;
-  } else if (hasAdve) {
-    query = new URLSearchParams({ adverse_event_id: String(adverse_event_id), page: String(pageNum), token: OFFX_API_TOKEN });
-    url = `https://api.targetsafety.info/api/drug/search/param?${query.toString()}`;
-  } else {
-    throw new Error('You must provide either both target_id and action_id, or only adverse_event_id');
-  }
-    const response = await fetch(url, {
-    method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      'Content-Type': 'application/json'
+// Tool definition for get_drug_target_liabilities
+const GET_DRUG_TARGET_LIABILITIES_TOOL = {
+  name: 'get_drug_target_liabilities',
+  description: 'Get a ranked list of target liabilities for a drug (by drug_id). Fetches the drug\'s primary and secondary targets and, for each target/action pair, the target/class score and associated adverse events, ranked by score. Use instead of calling get_targets, get_score and get_adverse_events for each target.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      drug_id: { type: 'string', description: 'Drug identifier (OFFX drug_id, required)' },
+      include_secondary: { type: 'boolean', description: 'Include secondary targets (optional, default: true)', default: true },
+      max_adverse_events: { type: 'number', description: 'Maximum number of adverse events listed per target (optional, default: 10); adverse_event_count always reports the total', default: 10 },
+      drug_name: NAME_PROPERTIES.drug_name,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
+    },
+    anyOf: [
+      { required: ['drug_id'] },
+      { required: ['drug_name'] }
+    ]
+  },
+  responseSchema: {
+    type: 'object',
+    properties: {
+      drug_id: { type: 'string' },
+      targets: { type: 'object', properties: { primary: { type: 'number' }, secondary: { type: 'number' } } },
+      liabilities: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            rank: { type: 'number' },
+            target_id: { type: 'string' },
+            target: { type: 'string' },
+            action_id: { type: 'string' },
+            relation: { type: 'string', enum: ['primary', 'secondary'] },
+            score: { type: 'number' },
+            adverse_event_count: { type: 'number' },
+            adverse_events: { type: 'array' }
+          },
+          required: ['rank', 'target_id', 'target', 'relation', 'score', 'adverse_event_count']
+        }
+      }
+    },
+    required: ['drug_id', 'targets', 'liabilities']
+  },
+  examples: [
+    {
+      description: 'Get target liabilities for a drug',
+      usage: '{ "drug_id": "11204" }',
+      response: '{ "drug_id": "11204", "targets": { "primary": 1, "secondary": 2 }, "liabilities": [ { "rank": 1, "target_id": "158", "target": "ALK", "action_id": "15", "relation": "primary", "score": 0.9, "adverse_event_count": 14, "adverse_events": [ { "adverse_event_id": "10001551", "adverse_event": "Anaemia" } ] } ] }'
     }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
-  }
-  return await response.json();
-}
+  ]
+};
 
-function validateCommaSeparatedNumbers(param: any, fieldName: string) {
-  if (param === undefined || param === null || param === '') return;
-  if (typeof param === 'number') return;
-  if (typeof param === 'string') {
-    if (!/^\d+(,\d+)*$/.test(param)) {
-      throw new Error(`${fieldName} must be a number or a comma-separated list of numbers (e.g., 1,2,3)`);
+// Tool definition for alert_timeline
+const ALERT_TIMELINE_TOOL = {
+  name: 'alert_timeline',
+  description: 'Get a time series of alert counts for a drug (by drug_id) or a target (by target_id), bucketed by month, quarter or year of the alert date and optionally split by adverse event or severity. Walks all alert pages and accepts the same filters as get_alerts. Returns chart-ready series instead of alert records; use for questions like "Are hepatotoxicity alerts for this target accelerating?"',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      drug_id: { type: 'string', description: 'Drug identifier (OFFX drug_id, optional)' },
+      target_id: { type: 'string', description: 'Target identifier (OFFX target_id, optional)' },
+      action_id: { type: 'string', description: 'Action ID (optional, for target alerts)' },
+      interval: { type: 'string', enum: TIMELINE_INTERVALS, description: 'Bucket size (optional, default: "month")', default: 'month' },
+      split_by: { type: 'string', enum: TIMELINE_SPLITS, description: 'Split every bucket into one series per adverse event or per severity (optional)' },
+      max_series: { type: 'number', description: 'Maximum number of series; smaller series are merged into "other" (optional, default: 10)', default: 10 },
+      ...ALERT_FILTER_PROPERTIES,
+      drug_name: NAME_PROPERTIES.drug_name,
+      target_name: NAME_PROPERTIES.target_name,
+      adverse_event_name: NAME_PROPERTIES.adverse_event_name,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
+    },
+    anyOf: [
+      { required: ['drug_id'] },
+      { required: ['drug_name'] },
+      { required: ['target_id'] },
+      { required: ['target_name'] }
+    ]
+  },
+  responseSchema: {
+    type: 'object',
+    properties: {
+      interval: { type: 'string' },
+      split_by: { type: 'string' },
+      buckets: { type: 'array', items: { type: 'string' } },
+      series: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            key: { type: 'string' },
+            label: { type: 'string' },
+            counts: { type: 'array', items: { type: 'number' } },
+            total: { type: 'number' }
+          }
+        }
+      },
+      total: { type: 'number' },
+      undated: { type: 'number' },
+      pagination: { type: 'object' }
+    },
+    required: ['interval', 'buckets', 'series', 'total']
+  },
+  examples: [
+    {
+      description: 'Quarterly hepatotoxicity alerts for a target',
+      usage: '{ "target_id": "158", "adverse_event_name": "Hepatotoxicity", "interval": "quarter" }',
+      response: '{ "interval": "quarter", "split_by": null, "buckets": ["2023-Q3", "2023-Q4", "2024-Q1"], "series": [ { "key": "all", "label": "All alerts", "counts": [1, 0, 4], "total": 5 } ], "total": 5, "undated": 0 }'
+    },
+    {
+      description: 'Yearly alerts for a drug split by severity',
+      usage: '{ "drug_id": "11204", "interval": "year", "split_by": "severity" }',
+      response: '{ "interval": "year", "split_by": "severity", "buckets": ["2022", "2023"], "series": [ { "key": "yes", "label": "yes", "counts": [2, 6], "total": 8 }, { "key": "no", "label": "no", "counts": [5, 3], "total": 8 } ], "total": 16, "undated": 0 }'
     }
-    return;
-  }
-  throw new Error(`${fieldName} must be a number or a comma-separated list of numbers (e.g., 1,2,3)`);
-}
-
-function validateStringEnum(param: any, fieldName: string, allowed: string[]) {
-  if (param === undefined || param === null || param === '') return;
-  if (typeof param !== 'string' || !allowed.includes(param)) {
-    throw new Error(`${fieldName} must be one of: ${allowed.join(', ')}`);
-  }
-}
-
-function validateNumber(param: any, fieldName: string) {
-  if (param === undefined || param === null) return;
-  if (typeof param !== 'number') {
-    throw new Error(`${fieldName} must be a number`);
-  }
-}
+  ]
+};
 
-async function getAlerts(params: {
-  drug_id?: string | number,
-  target_id?: string | number,
-  action_id?: string | number,
-  page?: number,
-  adverse_event_id?: string | number,
-  ref_source_type?: string | number,
-  alert_type?: string | number,
-  alert_phase?: string | number,
-  alert_level_evidence?: string | number,
+// Tool definition for summarize_alerts
+const SUMMARIZE_ALERTS_TOOL = {
+  name: 'summarize_alerts',
+  description: 'Get alert counts for a drug (by drug_id) or a target (by target_id) grouped by severity, phase, species, level of evidence, on/off target, reference source type and adverse event. Walks all alert pages and accepts the same filters as get_alerts. Use to answer questions like "How many serious, clinical, human alerts exist for drug X?" without paging through individual records.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      drug_id: { type: 'string', description: 'Drug identifier (OFFX drug_id, optional)' },
+      target_id: { type: 'string', description: 'Target identifier (OFFX target_id, optional)' },
+      action_id: { type: 'string', description: 'Action ID (optional, for target alerts)' },
+      facets: { type: 'array', items: { type: 'string', enum: ALERT_FACETS }, description: `Fields to count by (optional, default: all of ${ALERT_FACETS.join(', ')})` },
+      max_values: { type: 'number', description: 'Maximum number of values listed per facet, most frequent first (optional, default: 20)', default: 20 },
+      ...ALERT_FILTER_PROPERTIES,
+      drug_name: NAME_PROPERTIES.drug_name,
+      target_name: NAME_PROPERTIES.target_name,
+      adverse_event_name: NAME_PROPERTIES.adverse_event_name,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
+    },
+    anyOf: [
+      { required: ['drug_id'] },
+      { required: ['drug_name'] },
+      { required: ['target_id'] },
+      { required: ['target_name'] }
+    ]
+  },
+  responseSchema: {
+    type: 'object',
+    properties: {
+      total: { type: 'number' },
+      facets: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: {
+            distinct: { type: 'number' },
+            values: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  value: { type: 'string' },
+                  label: { type: 'string' },
+                  count: { type: 'number' }
+                }
+              }
+            }
+          }
+        }
+      },
+      pagination: { type: 'object' }
+    },
+    required: ['total', 'facets']
+  },
+  examples: [
+    {
+      description: 'Count serious human alerts for a drug by phase',
+      usage: '{ "drug_id": "11204", "alert_severity": "yes", "alert_species": "human", "facets": ["alert_phase"] }',
+      response: '{ "total": 42, "facets": { "alert_phase": { "distinct": 2, "values": [ { "value": "3", "label": "Clinical", "count": 30 }, { "value": "4", "label": "Postmarketing", "count": 12 } ] } } }'
+    }
+  ]
+};
+
+// Tool definition for generate_drug_safety_report
+const GENERATE_DRUG_SAFETY_REPORT_TOOL = {
+  name: 'generate_drug_safety_report',
+  description: 'Generate a Markdown safety dossier for a drug (by drug_id) with sections for drug identity, primary and secondary targets, top adverse events with scores, serious alerts by phase and species, and references grouped by source type. Returns Markdown text ready for program reviews.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      drug_id: { type: 'string', description: 'Drug identifier (OFFX drug_id, required)' },
+      top_adverse_events: { type: 'number', description: 'Number of adverse events listed with scores (optional, default: 10)', default: 10 },
+      max_references: { type: 'number', description: 'Maximum number of references listed per source type (optional, default: 5)', default: 5 },
+      drug_name: NAME_PROPERTIES.drug_name,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: CACHE_MODE_PROPERTY
+    },
+    anyOf: [
+      { required: ['drug_id'] },
+      { required: ['drug_name'] }
+    ]
+  },
+  responseSchema: {
+    type: 'string',
+    description: 'Markdown document'
+  },
+  examples: [
+    {
+      description: 'Generate a safety dossier for a drug',
+      usage: '{ "drug_id": "11204" }',
+      response: '# Drug Safety Report: semaglutide\n\n## Drug Identity\n\n| Field | Value |\n| --- | --- |\n| Name | semaglutide |\n...'
+    }
+  ]
+};
+
+// Shared arguments naming watchlist items
+const WATCH_ITEM_PROPERTIES = {
+  watchlist: { type: 'string', description: 'Watchlist name (optional, default: "default")', default: 'default' },
+  drug_ids: { type: 'array', items: { type: 'string' }, description: 'Drug identifiers (OFFX drug_id, optional)' },
+  targets: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        target_id: { type: 'string' },
+        action_id: { type: 'string' }
+      },
+      required: ['target_id', 'action_id']
+    },
+    description: 'Target/action pairs, e.g. [{ "target_id": "158", "action_id": "15" }] (optional)'
+  }
+};
+
+// Response of add_to_watchlist and remove_from_watchlist
+const WATCHLIST_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    watchlist: { type: 'string' },
+    changed: { type: 'number' },
+    items: { type: 'array' }
+  },
+  required: ['watchlist', 'changed', 'items']
+};
+
+// Tool definition for add_to_watchlist
+const ADD_TO_WATCHLIST_TOOL = {
+  name: 'add_to_watchlist',
+  description: 'Add drugs and target/action pairs to a watchlist kept in a local file on the server. Watched items are checked for new or changed alerts with get_new_alerts. Items already on the watchlist are left unchanged.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...WATCH_ITEM_PROPERTIES,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY
+    },
+    anyOf: [
+      { required: ['drug_ids'] },
+      { required: ['targets'] }
+    ]
+  },
+  responseSchema: WATCHLIST_RESPONSE_SCHEMA,
+  examples: [
+    {
+      description: 'Watch a drug and a target/action pair',
+      usage: '{ "drug_ids": ["11204"], "targets": [{ "target_id": "158", "action_id": "15" }] }',
+      response: '{ "watchlist": "default", "changed": 2, "items": [ { "type": "drug", "drug_id": "11204" }, { "type": "target", "target_id": "158", "action_id": "15" } ] }'
+    }
+  ]
+};
+
+// Tool definition for remove_from_watchlist
+const REMOVE_FROM_WATCHLIST_TOOL = {
+  name: 'remove_from_watchlist',
+  description: 'Remove drugs and target/action pairs from a watchlist, together with their alert snapshots. A watchlist left empty is deleted.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...WATCH_ITEM_PROPERTIES,
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY
+    },
+    anyOf: [
+      { required: ['drug_ids'] },
+      { required: ['targets'] }
+    ]
+  },
+  responseSchema: WATCHLIST_RESPONSE_SCHEMA,
+  examples: [
+    {
+      description: 'Stop watching a drug',
+      usage: '{ "drug_ids": ["11204"] }',
+      response: '{ "watchlist": "default", "changed": 1, "items": [ { "type": "target", "target_id": "158", "action_id": "15" } ] }'
+    }
+  ]
+};
+
+// Tool definition for get_watchlists
+const GET_WATCHLISTS_TOOL = {
+  name: 'get_watchlists',
+  description: 'List watchlists with their watched drugs and target/action pairs, and when each item was last checked by get_new_alerts.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      watchlist: { type: 'string', description: 'Watchlist name (optional, default: all watchlists)' },
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY
+    }
+  },
+  responseSchema: {
+    type: 'object',
+    properties: {
+      watchlists: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            items: { type: 'array' }
+          }
+        }
+      }
+    },
+    required: ['watchlists']
+  },
+  examples: [
+    {
+      description: 'List all watchlists',
+      usage: '{}',
+      response: '{ "watchlists": [ { "name": "default", "items": [ { "type": "drug", "drug_id": "11204", "last_checked": "2024-05-01T08:00:00.000Z", "alerts": 42 } ] } ] }'
+    }
+  ]
+};
+
+// Tool definition for get_new_alerts
+const GET_NEW_ALERTS_TOOL = {
+  name: 'get_new_alerts',
+  description: 'Check every item of a watchlist for alerts that appeared or changed since the last check. Fetches all alert pages of each watched drug or target/action pair, compares them with the stored snapshot and returns only new and changed alerts, each marked with change ("new" or "changed") and watch_item. The first check of an item records its alerts as the baseline without listing them. Use for routine pharmacovigilance questions like "What is new for my drugs since last week?"',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      watchlist: WATCH_ITEM_PROPERTIES.watchlist,
+      update: { type: 'boolean', description: 'Store the fetched alerts as the new snapshot (optional, default: true; false previews changes)', default: true },
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      cache_mode: { ...CACHE_MODE_PROPERTY, default: 'refresh' }
+    }
+  },
+  responseSchema: {
+    type: 'object',
+    properties: {
+      watchlist: { type: 'string' },
+      checked_at: { type: 'string' },
+      new: { type: 'number' },
+      changed: { type: 'number' },
+      removed: { type: 'number' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            watch_item: { type: 'string' },
+            previous_check: { type: 'string' },
+            first_check: { type: 'boolean' },
+            complete: { type: 'boolean' },
+            alerts: { type: 'number' },
+            new: { type: 'number' },
+            changed: { type: 'number' },
+            removed: { type: 'number' }
+          }
+        }
+      },
+      alerts: { type: 'array' }
+    },
+    required: ['watchlist', 'checked_at', 'items', 'alerts']
+  },
+  examples: [
+    {
+      description: 'Check the default watchlist',
+      usage: '{}',
+      response: '{ "watchlist": "default", "checked_at": "2024-05-08T08:00:00.000Z", "new": 1, "changed": 0, "removed": 0, "items": [ { "watch_item": "drug:11204", "previous_check": "2024-05-01T08:00:00.000Z", "first_check": false, "complete": true, "alerts": 43, "new": 1, "changed": 0, "removed": 0 } ], "alerts": [ { "change": "new", "watch_item": "drug:11204", "adverse_event_id": "10001551", "alert_severity": "yes" } ] }'
+    }
+  ]
+};
+
+// Upper bound on calls run by one batch call
+const MAX_BATCH_CALLS = 100;
+
+// Tool definition for batch
+const BATCH_TOOL = {
+  name: 'batch',
+  description: `Run up to ${MAX_BATCH_CALLS} tool calls in one request, e.g. get_score or get_adverse_events for many IDs. Calls run concurrently through the same handlers as individual calls. Results are returned in the order of the calls, each with ok: true and its result, or ok: false and its error, so one bad ID does not fail the whole batch.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      calls: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            tool: { type: 'string', description: 'Tool name, e.g. get_score' },
+            arguments: { type: 'object', description: 'Tool arguments' }
+          },
+          required: ['tool']
+        },
+        description: `Tool calls to run (required, at most ${MAX_BATCH_CALLS}; batch cannot be nested)`
+      },
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY
+    },
+    required: ['calls']
+  },
+  responseSchema: {
+    type: 'object',
+    properties: {
+      succeeded: { type: 'number' },
+      failed: { type: 'number' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            tool: { type: 'string' },
+            ok: { type: 'boolean' },
+            result: {},
+            format: { type: 'string' },
+            error: { type: 'object' }
+          }
+        }
+      }
+    },
+    required: ['succeeded', 'failed', 'results']
+  },
+  examples: [
+    {
+      description: 'Get scores for several drugs',
+      usage: '{ "calls": [ { "tool": "get_score", "arguments": { "drug_id": "11204" } }, { "tool": "get_score", "arguments": { "drug_id": "abc" } } ] }',
+      response: '{ "succeeded": 1, "failed": 1, "results": [ { "tool": "get_score", "ok": true, "result": { "score": 0.42 } }, { "tool": "get_score", "ok": false, "error": { "type": "invalid_argument", "message": "drug_id must be a number or a comma-separated list of numbers (e.g., 1,2,3)", "field": "drug_id" } } ] }'
+    }
+  ]
+};
+
+// Tool definition for get_cache_stats
+const GET_CACHE_STATS_TOOL = {
+  name: 'get_cache_stats',
+  description: 'Get response cache statistics: number of cached entries, hits, misses, hit rate (overall and per endpoint group) and configured TTLs.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY
+    }
+  },
+  responseSchema: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      entries: { type: 'number' },
+      hits: { type: 'number' },
+      misses: { type: 'number' },
+      diskHits: { type: 'number' },
+      hitRate: { type: 'number' },
+      byCategory: { type: 'object' },
+      ttl_seconds: { type: 'object' }
+    },
+    required: ['enabled']
+  },
+  examples: [
+    {
+      description: 'Get cache statistics',
+      usage: '{}',
+      response: '{ "enabled": true, "entries": 12, "hits": 30, "misses": 12, "diskHits": 0, "hitRate": 0.71 }'
+    }
+  ]
+};
+
+// Tool definition for clear_cache
+const CLEAR_CACHE_TOOL = {
+  name: 'clear_cache',
+  description: 'Clear the response cache, either entirely or for one endpoint group (search, masterview, alerts, score). Use when fresh OFFX data is needed for all subsequent calls. Authenticated HTTP clients only clear the responses fetched with their own OFFX token.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      category: { type: 'string', description: 'Endpoint group to clear (optional, default: all)', enum: CACHE_CATEGORIES },
+      fields: FIELDS_PROPERTY,
+      cursor: CURSOR_PROPERTY
+    }
+  },
+  responseSchema: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      cleared: { type: 'number' }
+    },
+    required: ['enabled', 'cleared']
+  },
+  examples: [
+    {
+      description: 'Clear cached alerts',
+      usage: '{ "category": "alerts" }',
+      response: '{ "enabled": true, "cleared": 4 }'
+    }
+  ]
+};
+
+async function searchDrugsByName({ drug }: { drug: string }) {
+  if (!drug) {
+    throw new InvalidArgumentError('drug is required', 'drug');
+  }
+  return await offx.get('/api/drug/search/param', { drug });
+}
+
+async function getDrugs(args: { target_id?: string, action_id?: string, adverse_event_id?: string, page?: number }) {
+  const { target_id, action_id, adverse_event_id, page } = args;
+  validateCommaSeparatedNumbers(target_id, 'target_id');
+  validateCommaSeparatedNumbers(action_id, 'action_id');
+  validateCommaSeparatedNumbers(adverse_event_id, 'adverse_event_id');
+  const hasTarget = !!target_id;
+  const hasAction = !!action_id;
+  const hasAdve = !!adverse_event_id;
+  if ((hasTarget && hasAction && !hasAdve) || (!hasTarget && !hasAction && hasAdve)) {
+    // valid
+  } else {
+    throw new InvalidArgumentError(
+      'You must provide either both target_id and action_id, or only adverse_event_id',
+      hasAdve ? (hasTarget ? 'target_id' : 'action_id') : (hasTarget ? 'action_id' : 'target_id')
+    );
+  }
+  const pageNum = page ?? 1;
+  let query: OffxQuery;
+  if (hasTarget && hasAction) {
+    query = { target_id, action_id, page: pageNum };
+  } else if (hasAdve) {
+    query = { adverse_event_id, page: pageNum };
+  } else {
+    throw new InvalidArgumentError('You must provide either both target_id and action_id, or only adverse_event_id');
+  }
+  return await offx.get('/api/drug/search/param', query);
+}
+
+async function getAlerts(params: {
+  drug_id?: string | number,
+  target_id?: string | number,
+  action_id?: string | number,
+  page?: number,
+  adverse_event_id?: string | number,
+  ref_source_type?: string | number,
+  alert_type?: string | number,
+  alert_phase?: string | number,
+  alert_level_evidence?: string | number,
   alert_onoff_target?: string | number,
   alert_severity?: string,
   alert_causality?: string,
@@ -957,19 +1792,9 @@ async function getAlerts(params: {
   const { drug_id, target_id, page } = params;
   const pageNum = page ?? 1;
   if ((drug_id && target_id) || (!drug_id && !target_id)) {
-    throw new Error('You must provide exactly one of: drug_id or target_id');
-  }
-  if (drug_id) {
-    if (!drug_id) throw new Error('drug_id is required');
-  } else if (target_id) {
-    if (!target_id) throw new Error('target_id is required');
+    throw new InvalidArgumentError('You must provide exactly one of: drug_id or target_id', drug_id ? 'target_id' : 'drug_id');
   }
-  const query = new URLSearchParams({
-    page: String(pageNum),
-    token: OFFX_API_TOKEN
-  });
-  if (drug_id) query.append('drug_id', String(drug_id));
-  if (target_id) query.append('target_id', String(target_id));
+  const query: OffxQuery = { page: pageNum, drug_id, target_id };
   [
     'action_id',
     'adverse_event_id',
@@ -986,150 +1811,77 @@ async function getAlerts(params: {
     'order_by_date',
     'order_by_adv'
   ].forEach(key => {
-    const value = (params as any)[key];
-    if (value !== undefined && value !== null && value !== '') {
-      query.append(key, String(value));
-    }
-  });
-  const url = drug_id
-    ? `https://api.targetsafety.info/api/drug/alerts/param?${query.toString()}`
-    : `https://api.targetsafety.info/api/target/alerts/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
+    query[key] = (params as any)[key];
   });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
-  }
-  return await response.json();
+  const endpoint = drug_id ? '/api/drug/alerts/param' : '/api/target/alerts/param';
+  return await offx.get(endpoint, query);
 }
 
 async function getDrugScore({ drug_id, adverse_event_id }: { drug_id: string, adverse_event_id?: string }) {
   if (!drug_id) {
-    throw new Error('drug_id is required');
-  }
-  const query = new URLSearchParams({
-    drug_id: String(drug_id),
-    token: OFFX_API_TOKEN
-  });
-  if (adverse_event_id) {
-    query.append('adverse_event_id', String(adverse_event_id));
+    throw new InvalidArgumentError('drug_id is required', 'drug_id');
   }
-  const url = `https://api.targetsafety.info/api/score/drug/search/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
-  }
-  return await response.json();
+  return await offx.get('/api/score/drug/search/param', { drug_id, adverse_event_id });
 }
 
 async function searchAdverseEvents({ adverse_event }: { adverse_event: string }) {
   if (!adverse_event) {
-    throw new Error('adverse_event is required');
-  }
-  const query = new URLSearchParams({ adverse_event, token: OFFX_API_TOKEN });
-  const url = `https://api.targetsafety.info/api/adverseevent/search/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
+    throw new InvalidArgumentError('adverse_event is required', 'adverse_event');
   }
-  return await response.json();
+  return await offx.get('/api/adverseevent/search/param', { adverse_event });
 }
 
 async function getAdverseEvents(args: { drug_id?: string, target_id?: string }) {
   const { drug_id, target_id } = args;
+  validateCommaSeparatedNumbers(drug_id, 'drug_id');
+  validateCommaSeparatedNumbers(target_id, 'target_id');
   if ((drug_id && target_id) || (!drug_id && !target_id)) {
-    throw new Error('You must provide exactly one of: drug_id or target_id');
+    throw new InvalidArgumentError('You must provide exactly one of: drug_id or target_id', drug_id ? 'target_id' : 'drug_id');
   }
-  let query: URLSearchParams;
-  let url: string;
+  let query: OffxQuery;
   if (drug_id) {
-    query = new URLSearchParams({ drug_id: String(drug_id), token: OFFX_API_TOKEN });
-    url = `https://api.targetsafety.info/api/adverseevent/search/param?${query.toString()}`;
+    query = { drug_id };
   } else if (target_id) {
-    query = new URLSearchParams({ target_id: String(target_id), token: OFFX_API_TOKEN });
-    url = `https://api.targetsafety.info/api/adverseevent/search/param?${query.toString()}`;
+    query = { target_id };
   } else {
-    throw new Error('You must provide exactly one of: drug_id or target_id');
-  }
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
+    throw new InvalidArgumentError('You must provide exactly one of: drug_id or target_id');
   }
-  return await response.json();
+  return await offx.get('/api/adverseevent/search/param', query);
 }
 
 async function getTargetScore({ target_id, action_id, adverse_event_id }: { target_id: string, action_id: string, adverse_event_id?: string }) {
   if (!target_id) {
-    throw new Error('target_id is required');
+    throw new InvalidArgumentError('target_id is required', 'target_id');
   }
   if (!action_id) {
-    throw new Error('action_id is required');
-  }
-  const query = new URLSearchParams({
-    target_id: String(target_id),
-    action_id: String(action_id),
-    token: OFFX_API_TOKEN
-  });
-  if (adverse_event_id) {
-    query.append('adverse_event_id', String(adverse_event_id));
-  }
-  const url = `https://api.targetsafety.info/api/score/target/search/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
+    throw new InvalidArgumentError('action_id is required', 'action_id');
   }
-  return await response.json();
+  return await offx.get('/api/score/target/search/param', { target_id, action_id, adverse_event_id });
 }
 
 async function getScore(args: { drug_id?: string, adverse_event_id?: string, target_id?: string, action_id?: string }) {
   const { drug_id, adverse_event_id, target_id, action_id } = args;
+  validateCommaSeparatedNumbers(drug_id, 'drug_id');
+  validateCommaSeparatedNumbers(target_id, 'target_id');
+  validateCommaSeparatedNumbers(action_id, 'action_id');
+  validateCommaSeparatedNumbers(adverse_event_id, 'adverse_event_id');
   const hasDrug = !!drug_id;
   const hasTarget = !!target_id;
   const hasAction = !!action_id;
   if ((hasDrug && !hasTarget && !hasAction) || (!hasDrug && hasTarget && hasAction)) {
     // valid
     } else {
-    throw new Error('You must provide either drug_id (alone), or both target_id and action_id (together), but not neither, not all, and not just one of target_id/action_id');
+    throw new InvalidArgumentError(
+      'You must provide either drug_id (alone), or both target_id and action_id (together), but not neither, not all, and not just one of target_id/action_id',
+      hasDrug ? (hasTarget ? 'target_id' : 'action_id') : (hasTarget ? 'action_id' : hasAction ? 'target_id' : 'drug_id')
+    );
   }
   if (hasDrug) {
     return await getDrugScore({ drug_id, adverse_event_id });
   } else if (hasTarget && hasAction) {
     return await getTargetScore({ target_id, action_id, adverse_event_id });
   } else {
-    throw new Error('You must provide either drug_id (alone), or both target_id and action_id (together)');
+    throw new InvalidArgumentError('You must provide either drug_id (alone), or both target_id and action_id (together)');
   }
 }
 
@@ -1159,16 +1911,12 @@ async function getDrugMasterview(params: {
   }
   const { drug_id, page } = params;
   if (!drug_id) {
-    throw new Error('drug_id is required');
+    throw new InvalidArgumentError('drug_id is required', 'drug_id');
   }
   if (!page) {
-    throw new Error('page is required');
+    throw new InvalidArgumentError('page is required', 'page');
   }
-  const query = new URLSearchParams({
-    drug_id: String(drug_id),
-    page: String(page),
-    token: OFFX_API_TOKEN
-  });
+  const query: OffxQuery = { drug_id, page };
   [
     'adverse_event_id',
     'ref_source_type',
@@ -1181,44 +1929,16 @@ async function getDrugMasterview(params: {
     'alert_date_from',
     'alert_date_to'
   ].forEach(key => {
-    const value = (params as any)[key];
-    if (value !== undefined && value !== null && value !== '') {
-      query.append(key, String(value));
-    }
+    query[key] = (params as any)[key];
   });
-  const url = `https://api.targetsafety.info/api/drug/masterview/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
-  }
-  return await response.json();
+  return await offx.get('/api/drug/masterview/param', query);
 }
 
 async function searchTargets({ target }: { target: string }) {
   if (!target) {
-    throw new Error('target is required');
-  }
-  const query = new URLSearchParams({ target, token: OFFX_API_TOKEN });
-  const url = `https://api.targetsafety.info/api/target/search/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
+    throw new InvalidArgumentError('target is required', 'target');
   }
-  return await response.json();
+  return await offx.get('/api/target/search/param', { target });
 }
 
 async function getTargetMasterview(params: {
@@ -1251,18 +1971,13 @@ async function getTargetMasterview(params: {
   }
   const { target_id, action_id, page } = params;
   if (!target_id) {
-    throw new Error('target_id is required');
+    throw new InvalidArgumentError('target_id is required', 'target_id');
   }
   if (!action_id) {
-    throw new Error('action_id is required');
+    throw new InvalidArgumentError('action_id is required', 'action_id');
   }
   const pageNum = page ?? 1;
-  const query = new URLSearchParams({
-    target_id: String(target_id),
-    action_id: String(action_id),
-    page: String(pageNum),
-    token: OFFX_API_TOKEN
-  });
+  const query: OffxQuery = { target_id, action_id, page: pageNum };
   [
     'adverse_event_id',
     'ref_source_type',
@@ -1276,85 +1991,33 @@ async function getTargetMasterview(params: {
     'alert_date_from',
     'alert_date_to'
   ].forEach(key => {
-    const value = (params as any)[key];
-    if (value !== undefined && value !== null && value !== '') {
-      query.append(key, String(value));
-    }
+    query[key] = (params as any)[key];
   });
-  const url = `https://api.targetsafety.info/api/target/masterview/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
-  }
-  return await response.json();
+  return await offx.get('/api/target/masterview/param', query);
 }
 
 async function getPrimaryTargets({ drug_id }: { drug_id: string }) {
-  if (!drug_id) throw new Error('drug_id is required');
-  const query = new URLSearchParams({ drug_id: String(drug_id), token: OFFX_API_TOKEN });
-  const url = `https://api.targetsafety.info/api/target/primary/search/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
-  }
-  return await response.json();
+  if (!drug_id) throw new InvalidArgumentError('drug_id is required', 'drug_id');
+  return await offx.get('/api/target/primary/search/param', { drug_id });
 }
 
 async function getSecondaryTargets({ drug_id }: { drug_id: string }) {
-  if (!drug_id) throw new Error('drug_id is required');
-  const query = new URLSearchParams({ drug_id: String(drug_id), token: OFFX_API_TOKEN });
-  const url = `https://api.targetsafety.info/api/target/secondary/search/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
-  }
-  return await response.json();
+  if (!drug_id) throw new InvalidArgumentError('drug_id is required', 'drug_id');
+  return await offx.get('/api/target/secondary/search/param', { drug_id });
 }
 
 async function getTargetsByAdverseEvent({ adverse_event_id }: { adverse_event_id: string }) {
-  if (!adverse_event_id) throw new Error('adverse_event_id is required');
-  const query = new URLSearchParams({ adverse_event_id: String(adverse_event_id), token: OFFX_API_TOKEN });
-  const url = `https://api.targetsafety.info/api/target/search/param?${query.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Request failed with status ${response.status}: ${errorText}`);
-  }
-  return await response.json();
+  if (!adverse_event_id) throw new InvalidArgumentError('adverse_event_id is required', 'adverse_event_id');
+  return await offx.get('/api/target/search/param', { adverse_event_id });
 }
 
 async function getTargets(args: { drug_id?: string, type?: 'primary' | 'secondary', adverse_event_id?: string }) {
   const { drug_id, type, adverse_event_id } = args;
+  validateCommaSeparatedNumbers(drug_id, 'drug_id');
+  validateCommaSeparatedNumbers(adverse_event_id, 'adverse_event_id');
   // Enforce that exactly one of drug_id or adverse_event_id is provided
   if ((!!drug_id && !!adverse_event_id) || (!drug_id && !adverse_event_id)) {
-    throw new Error('You must provide exactly one of: drug_id or adverse_event_id');
+    throw new InvalidArgumentError('You must provide exactly one of: drug_id or adverse_event_id', drug_id ? 'adverse_event_id' : 'drug_id');
   }
   if (drug_id) {
     const targetType = type || 'primary';
@@ -1365,20 +2028,759 @@ async function getTargets(args: { drug_id?: string, type?: 'primary' | 'secondar
       const secondary = await getSecondaryTargets({ drug_id });
       return { secondary_targets: secondary.targets || [] };
     } else {
-      throw new Error('type must be "primary" or "secondary"');
+      throw new InvalidArgumentError('type must be "primary" or "secondary"', 'type');
     }
   } else if (adverse_event_id) {
     const result = await getTargetsByAdverseEvent({ adverse_event_id });
     return { targets: result.targets || [] };
   } else {
-    throw new Error('You must provide either drug_id or adverse_event_id');
+    throw new InvalidArgumentError('You must provide either drug_id or adverse_event_id');
+  }
+}
+
+// Resolvers that turn name arguments into OFFX IDs using the search endpoints
+const NAME_RESOLVERS: Record<NameField, NameResolver> = {
+  drug_name: {
+    idField: 'drug_id',
+    entity: 'drug',
+    search: async drug => ((await searchDrugsByName({ drug })).drugs || []).map((item: any) => ({
+      id: String(item.drug_id),
+      name: item.drug_main_name,
+      other_names: Array.isArray(item.drug_other_names) ? item.drug_other_names : []
+    }))
+  },
+  target_name: {
+    idField: 'target_id',
+    entity: 'target',
+    search: async target => ((await searchTargets({ target })).targets || []).map((item: any) => ({
+      id: String(item.target_id),
+      name: item.target
+    }))
+  },
+  adverse_event_name: {
+    idField: 'adverse_event_id',
+    entity: 'adverse_event',
+    search: async adverse_event => ((await searchAdverseEvents({ adverse_event })).adverse_events || []).map((item: any) => ({
+      id: String(item.adverse_event_id),
+      name: item.adverse_event
+    }))
+  }
+};
+
+/**
+ * Resolves the name arguments declared in a tool's inputSchema (drug_name,
+ * target_name, adverse_event_name) to OFFX IDs, calls fn with the IDs and
+ * reports the picked entities under `resolved`
+ */
+async function withNameResolution<A extends Record<string, any>>(definition: ToolDefinition, args: A, fn: (args: A) => Promise<any>) {
+  const properties = definition.inputSchema.properties || {};
+  const resolvers = Object.fromEntries(
+    (Object.keys(NAME_RESOLVERS) as NameField[])
+      .filter(field => field in properties)
+      .map(field => [field, NAME_RESOLVERS[field]])
+  );
+  const { args: resolvedArgs, resolved } = await resolveNameArgs(args ?? {} as A, resolvers);
+  const result = await fn(resolvedArgs);
+  return Object.keys(resolved).length > 0 ? { ...result, resolved } : result;
+}
+
+/**
+ * Calls a paginated OFFX function for a single page, or walks pages when
+ * all_pages, max_pages or max_items is given and adds a `pagination` summary
+ * (pages fetched, item count, whether the result was truncated). Only the
+ * records in `recordsField` are collected across pages.
+ */
+async function withPagination<A extends { page?: number, all_pages?: boolean, max_pages?: number, max_items?: number }>(
+  args: A,
+  fetchPage: (args: A) => Promise<any>,
+  recordsField: 'alerts' | 'drugs'
+) {
+  const { all_pages, max_pages, max_items } = args ?? {};
+  if (all_pages !== undefined && typeof all_pages !== 'boolean') {
+    throw new InvalidArgumentError('all_pages must be a boolean', 'all_pages');
+  }
+  validateNumber(max_pages, 'max_pages');
+  validateNumber(max_items, 'max_items');
+  if (!all_pages && max_pages === undefined && max_items === undefined) {
+    return await fetchPage(args);
+  }
+  if ((max_pages !== undefined && max_pages < 1) || (max_items !== undefined && max_items < 1)) {
+    throw new InvalidArgumentError('max_pages and max_items must be at least 1', max_pages !== undefined && max_pages < 1 ? 'max_pages' : 'max_items');
+  }
+  const { result, pagination } = await collectPages(page => fetchPage({ ...args, page }), {
+    startPage: args.page ?? 1,
+    maxPages: Math.min(max_pages ?? OFFX_MAX_PAGES, OFFX_MAX_PAGES),
+    maxItems: max_items,
+    recordsField
+  });
+  return { ...result, pagination };
+}
+
+// Upper bound on drugs compared in one compare_drugs call
+const MAX_COMPARED_DRUGS = 10;
+
+const scoreValue = (result: any): number | null => typeof result?.score === 'number' ? result.score : null;
+
+/**
+ * Gathers the adverse events, drug score and alerts (all pages, up to
+ * OFFX_MAX_PAGES) for one drug
+ */
+async function getDrugSafetyProfile(drug_id: string): Promise<DrugSafetyProfile> {
+  const [adverseEvents, score, alerts] = await Promise.all([
+    getAdverseEvents({ drug_id }),
+    getDrugScore({ drug_id }),
+    collectPages(page => getAlerts({ drug_id, page }), { startPage: 1, maxPages: OFFX_MAX_PAGES, recordsField: 'alerts' })
+  ]);
+  const alertCounts: Record<string, number> = {};
+  (alerts.result?.alerts || []).forEach((alert: any) => {
+    if (alert?.adverse_event_id === undefined || alert.adverse_event_id === null) return;
+    const id = String(alert.adverse_event_id);
+    alertCounts[id] = (alertCounts[id] || 0) + 1;
+  });
+  return {
+    drug_id,
+    score: scoreValue(score),
+    adverseEvents: (adverseEvents?.adverse_events || []).map((event: any) => ({
+      adverse_event_id: String(event.adverse_event_id),
+      adverse_event: event.adverse_event
+    })),
+    alertCounts,
+    alertsComplete: alerts.pagination.complete
+  };
+}
+
+async function compareDrugs(args: { drug_ids?: string[], drug_names?: string[], max_adverse_events: number }) {
+  const resolved: Record<string, { id: string, name: string }> = {};
+  const namedIds = await mapWithConcurrency(args.drug_names || [], OFFX_MAX_CONCURRENCY, async drug_name => {
+    const candidate = pickCandidate('drug_name', drug_name, await NAME_RESOLVERS.drug_name.search(drug_name));
+    resolved[drug_name] = { id: candidate.id, name: candidate.name };
+    return candidate.id;
+  });
+  const drugIds = Array.from(new Set([...(args.drug_ids || []), ...namedIds]));
+  if (drugIds.length < 2 || drugIds.length > MAX_COMPARED_DRUGS) {
+    throw new InvalidArgumentError(`Provide between 2 and ${MAX_COMPARED_DRUGS} distinct drugs to compare`);
+  }
+  if (args.max_adverse_events < 1 || args.max_adverse_events > 100) {
+    throw new InvalidArgumentError('max_adverse_events must be between 1 and 100', 'max_adverse_events');
+  }
+
+  const profiles = await mapWithConcurrency(drugIds, OFFX_MAX_CONCURRENCY, getDrugSafetyProfile);
+  const comparison = compareDrugProfiles(profiles, args.max_adverse_events);
+
+  // Per adverse event scores, only for the drugs associated with each row kept in the table
+  const cells = comparison.table.flatMap(row =>
+    Object.entries(row.by_drug)
+      .filter(([, cell]) => cell.present)
+      .map(([drug_id, cell]) => ({ drug_id, adverse_event_id: row.adverse_event_id, cell }))
+  );
+  await mapWithConcurrency(cells, OFFX_MAX_CONCURRENCY, async ({ drug_id, adverse_event_id, cell }) => {
+    cell.score = scoreValue(await getDrugScore({ drug_id, adverse_event_id }));
+  });
+
+  return Object.keys(resolved).length > 0 ? { ...comparison, resolved } : comparison;
+}
+
+/**
+ * Collects the primary (and optionally secondary) targets of a drug and, per
+ * target/action pair, the target/class score and associated adverse events,
+ * ranked by liability
+ */
+async function getDrugTargetLiabilities(args: { drug_id: string, include_secondary: boolean, max_adverse_events: number }) {
+  const { drug_id, include_secondary, max_adverse_events } = args;
+  if (max_adverse_events < 0) {
+    throw new InvalidArgumentError('max_adverse_events must not be negative', 'max_adverse_events');
+  }
+  const [primary, secondary] = await Promise.all([
+    getPrimaryTargets({ drug_id }),
+    include_secondary ? getSecondaryTargets({ drug_id }) : Promise.resolve({ targets: [] })
+  ]);
+  const toPair = (relation: TargetRelation) => (item: any) => ({
+    target_id: String(item.target_id),
+    target: item.target,
+    action_id: item.action_id !== undefined && item.action_id !== null && item.action_id !== '' ? String(item.action_id) : null,
+    relation
+  });
+  const primaryTargets = (primary?.targets || []).map(toPair('primary'));
+  const secondaryTargets = (secondary?.targets || []).map(toPair('secondary'));
+  const pairs = dedupeTargetPairs([...primaryTargets, ...secondaryTargets]);
+
+  // Adverse events are looked up once per target, scores once per target/action pair
+  const targetIds = Array.from(new Set(pairs.map(pair => pair.target_id)));
+  const adverseEvents = new Map<string, AdverseEventRef[]>();
+  await mapWithConcurrency(targetIds, OFFX_MAX_CONCURRENCY, async target_id => {
+    const result = await getAdverseEvents({ target_id });
+    adverseEvents.set(target_id, (result?.adverse_events || []).map((event: any) => ({
+      adverse_event_id: String(event.adverse_event_id),
+      adverse_event: event.adverse_event
+    })));
+  });
+  const liabilities: TargetLiability[] = await mapWithConcurrency(pairs, OFFX_MAX_CONCURRENCY, async pair => {
+    const events = adverseEvents.get(pair.target_id) || [];
+    return {
+      ...pair,
+      score: pair.action_id ? scoreValue(await getTargetScore({ target_id: pair.target_id, action_id: pair.action_id })) : null,
+      adverse_event_count: events.length,
+      adverse_events: events.slice(0, max_adverse_events)
+    };
+  });
+
+  return {
+    drug_id,
+    targets: { primary: primaryTargets.length, secondary: secondaryTargets.length },
+    liabilities: rankTargetLiabilities(liabilities)
+  };
+}
+
+/**
+ * Walks all alert pages (up to OFFX_MAX_PAGES) for a drug or target with the
+ * get_alerts filters and buckets the alerts into a timeline
+ */
+async function getAlertTimeline(args: Record<string, any> & { interval: TimelineInterval, split_by?: TimelineSplit, max_series: number }) {
+  const { interval, split_by, max_series, ...filters } = args;
+  if (max_series < 1) {
+    throw new InvalidArgumentError('max_series must be at least 1', 'max_series');
+  }
+  const { result, pagination } = await collectPages(page => getAlerts({ ...filters, page }), { startPage: 1, maxPages: OFFX_MAX_PAGES, recordsField: 'alerts' });
+  const timeline = buildAlertTimeline(result?.alerts || [], { interval, splitBy: split_by, maxSeries: max_series });
+  return { ...timeline, pagination };
+}
+
+/**
+ * Walks all alert pages (up to OFFX_MAX_PAGES) for a drug or target with the
+ * get_alerts filters and counts the alerts per facet value
+ */
+async function summarizeAlerts(args: Record<string, any> & { facets?: AlertFacet[], max_values: number }) {
+  const { facets, max_values, ...filters } = args;
+  if (max_values < 1) {
+    throw new InvalidArgumentError('max_values must be at least 1', 'max_values');
+  }
+  const { result, pagination } = await collectPages(page => getAlerts({ ...filters, page }), { startPage: 1, maxPages: OFFX_MAX_PAGES, recordsField: 'alerts' });
+  const summary = summarizeAlertRecords(result?.alerts || [], facets && facets.length > 0 ? facets : ALERT_FACETS, max_values);
+  return { ...summary, pagination };
+}
+
+/**
+ * Gathers the masterview, targets, scores and alerts (all pages, up to
+ * OFFX_MAX_PAGES) of a drug and renders them as a Markdown dossier
+ */
+async function generateDrugSafetyReport(args: { drug_id: string, top_adverse_events: number, max_references: number }) {
+  const { drug_id, top_adverse_events, max_references } = args;
+  if (top_adverse_events < 1 || max_references < 0) {
+    throw new InvalidArgumentError('top_adverse_events must be at least 1 and max_references must not be negative');
+  }
+  const [masterview, primary, secondary, score, alerts] = await Promise.all([
+    getDrugMasterview({ drug_id, page: 1 }),
+    getTargets({ drug_id, type: 'primary' }),
+    getTargets({ drug_id, type: 'secondary' }),
+    getScore({ drug_id }),
+    collectPages(page => getAlerts({ drug_id, page }), { startPage: 1, maxPages: OFFX_MAX_PAGES, recordsField: 'alerts' })
+  ]);
+  const alertRecords: any[] = alerts.result?.alerts || [];
+  const adverseEventScores: Record<string, number | null> = {};
+  await mapWithConcurrency(rankAdverseEvents(alertRecords).slice(0, top_adverse_events), OFFX_MAX_CONCURRENCY, async event => {
+    adverseEventScores[event.adverse_event_id] = scoreValue(await getScore({ drug_id, adverse_event_id: event.adverse_event_id }));
+  });
+  const markdown = renderDrugSafetyReport({
+    drugId: drug_id,
+    drug: masterview?.drug || {},
+    score: scoreValue(score),
+    primaryTargets: primary.primary_targets || [],
+    secondaryTargets: secondary.secondary_targets || [],
+    alerts: alertRecords,
+    alertsComplete: alerts.pagination.complete,
+    adverseEventScores,
+    topAdverseEvents: top_adverse_events,
+    maxReferences: max_references,
+    generatedAt: new Date()
+  });
+  return new FormattedOutput('markdown', markdown);
+}
+
+// Watchlist items named by drug_ids and targets, checked and without duplicates
+function watchItemsFromArgs(args: { drug_ids?: string[], targets?: { target_id?: unknown, action_id?: unknown }[] }): WatchItem[] {
+  const items: WatchItem[] = [];
+  (args.drug_ids || []).forEach((drug_id, index) => {
+    if (!/^\d+$/.test(drug_id)) {
+      throw new InvalidArgumentError(`drug_ids[${index}] must be a single OFFX drug_id`, 'drug_ids');
+    }
+    items.push({ type: 'drug', drug_id });
+  });
+  (args.targets || []).forEach((target, index) => {
+    ['target_id', 'action_id'].forEach(field => {
+      const value = target?.[field as 'target_id' | 'action_id'];
+      if (!/^\d+$/.test(String(value ?? ''))) {
+        throw new InvalidArgumentError(`targets[${index}].${field} must be a single OFFX ${field}`, 'targets');
+      }
+    });
+    items.push({ type: 'target', target_id: String(target.target_id), action_id: String(target.action_id) });
+  });
+  return items.filter((item, index) => items.findIndex(other => watchItemKey(other) === watchItemKey(item)) === index);
+}
+
+async function addToWatchlist(args: { watchlist: string, drug_ids?: string[], targets?: any[] }) {
+  const items = watchItemsFromArgs(args);
+  return currentWatchlists().update(all => {
+    const list = all[args.watchlist] || { items: [], snapshots: {} };
+    const watched = new Set(list.items.map(watchItemKey));
+    const added = items.filter(item => !watched.has(watchItemKey(item)));
+    list.items.push(...added);
+    all[args.watchlist] = list;
+    return { watchlist: args.watchlist, changed: added.length, items: list.items };
+  });
+}
+
+async function removeFromWatchlist(args: { watchlist: string, drug_ids?: string[], targets?: any[] }) {
+  const keys = new Set(watchItemsFromArgs(args).map(watchItemKey));
+  return currentWatchlists().update(all => {
+    const list = all[args.watchlist];
+    if (!list) {
+      throw new InvalidArgumentError(`Unknown watchlist: ${args.watchlist}`, 'watchlist');
+    }
+    const remaining = list.items.filter(item => !keys.has(watchItemKey(item)));
+    const changed = list.items.length - remaining.length;
+    keys.forEach(key => delete list.snapshots[key]);
+    list.items = remaining;
+    if (remaining.length === 0) delete all[args.watchlist];
+    return { watchlist: args.watchlist, changed, items: remaining };
+  });
+}
+
+async function getWatchlists(args: { watchlist?: string }) {
+  const all = await currentWatchlists().all();
+  if (args.watchlist && !all[args.watchlist]) {
+    throw new InvalidArgumentError(`Unknown watchlist: ${args.watchlist}`, 'watchlist');
+  }
+  const names = args.watchlist ? [args.watchlist] : Object.keys(all).sort();
+  return {
+    watchlists: names.map(name => ({
+      name,
+      items: all[name].items.map(item => {
+        const snapshot = all[name].snapshots[watchItemKey(item)];
+        return snapshot
+          ? { ...item, last_checked: snapshot.checked_at, alerts: Object.values(snapshot.alerts).reduce((count, contents) => count + contents.length, 0) }
+          : item;
+      })
+    }))
+  };
+}
+
+/**
+ * Fetches all alert pages (up to OFFX_MAX_PAGES) of every item on a watchlist
+ * and compares them with the stored snapshots. Items checked for the first
+ * time only record their alerts as the baseline.
+ */
+async function getNewAlerts(args: { watchlist: string, update: boolean }) {
+  const list = (await currentWatchlists().all())[args.watchlist];
+  if (!list) {
+    throw new InvalidArgumentError(`Unknown watchlist: ${args.watchlist}`, 'watchlist');
+  }
+  const checkedAt = new Date();
+  const checks = await mapWithConcurrency(list.items, OFFX_MAX_CONCURRENCY, async item => {
+    const filters = item.type === 'drug' ? { drug_id: item.drug_id } : { target_id: item.target_id, action_id: item.action_id };
+    const { result, pagination } = await collectPages(page => getAlerts({ ...filters, page }), { startPage: 1, maxPages: OFFX_MAX_PAGES, recordsField: 'alerts' });
+    const alerts: any[] = result?.alerts || [];
+    const key = watchItemKey(item);
+    const previous = list.snapshots[key];
+    return { key, previous, count: alerts.length, complete: pagination.complete, diff: diffAlerts(previous, alerts, checkedAt, pagination.complete) };
+  });
+  if (args.update) {
+    await currentWatchlists().update(all => {
+      const current = all[args.watchlist];
+      // Items removed while the check was running are not brought back
+      checks.forEach(({ key, diff }) => {
+        if (current?.items.some(item => watchItemKey(item) === key)) current.snapshots[key] = diff.snapshot;
+      });
+    });
+  }
+  const reported = checks.filter(check => check.previous);
+  return {
+    watchlist: args.watchlist,
+    checked_at: checkedAt.toISOString(),
+    new: reported.reduce((count, check) => count + check.diff.new, 0),
+    changed: reported.reduce((count, check) => count + check.diff.changed, 0),
+    removed: reported.reduce((count, check) => count + check.diff.removed, 0),
+    items: checks.map(({ key, previous, count, complete, diff }) => ({
+      watch_item: key,
+      previous_check: previous?.checked_at,
+      first_check: !previous,
+      complete,
+      alerts: count,
+      new: previous ? diff.new : 0,
+      changed: diff.changed,
+      removed: diff.removed
+    })),
+    alerts: reported.flatMap(({ key, diff }) => diff.alerts.map(({ change, ...alert }) => ({ change, watch_item: key, ...alert })))
+  };
+}
+
+// Response cache statistics as Prometheus metrics
+function cacheMetrics(stats: CacheStats): MetricSnapshot[] {
+  const byCategory = (field: 'hits' | 'misses') => CACHE_CATEGORIES.map(category => ({ labels: { category }, value: stats.byCategory[category][field] }));
+  return [
+    { name: 'offx_mcp_cache_hits_total', help: 'Response cache hits by category', type: 'counter', samples: byCategory('hits') },
+    { name: 'offx_mcp_cache_misses_total', help: 'Response cache misses by category', type: 'counter', samples: byCategory('misses') },
+    { name: 'offx_mcp_cache_disk_hits_total', help: 'Response cache hits served from the on-disk store', type: 'counter', samples: [{ labels: {}, value: stats.diskHits }] },
+    { name: 'offx_mcp_cache_entries', help: 'Responses held in the in-memory cache', type: 'gauge', samples: [{ labels: {}, value: stats.entries }] }
+  ];
+}
+
+function getCacheStats() {
+  if (!responseCache) return { enabled: false };
+  return { enabled: true, ...responseCache.stats(), ttl_seconds: OFFX_CACHE_TTL };
+}
+
+async function clearCache(args: { category?: CacheCategory }) {
+  validateStringEnum(args?.category, 'category', CACHE_CATEGORIES);
+  if (!responseCache) return { enabled: false, cleared: 0 };
+  // Authenticated clients share the cache, so each one only clears the responses fetched with its own OFFX token
+  const { client } = currentRequestContext();
+  return { enabled: true, cleared: await responseCache.clear(args?.category, client ? `${client}:` : undefined) };
+}
+
+/**
+ * A tool exposed over MCP and HTTP. Its definition drives MCP ListTools,
+ * HTTP /list_tools and runtime validation of the tool's arguments.
+ */
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  responseSchema?: JsonSchema;
+  examples?: { description: string, usage: string, response: string }[];
+}
+
+interface ToolEntry {
+  definition: ToolDefinition;
+  handler: (args: any) => Promise<unknown> | unknown;
+}
+
+// Registry of every tool, in the order they are listed to clients
+const TOOLS: ToolEntry[] = [
+  { definition: SEARCH_DRUGS_TOOL, handler: args => searchDrugsByName(args) },
+  { definition: GET_DRUGS_TOOL, handler: args => withNameResolution(GET_DRUGS_TOOL, args, a => withPagination(a, getDrugs, 'drugs')) },
+  { definition: GET_ALERTS_TOOL, handler: async args => addCodeLabels(await withNameResolution(GET_ALERTS_TOOL, args, a => withPagination(a, getAlerts, 'alerts'))) },
+  { definition: GET_SCORE_TOOL, handler: args => withNameResolution(GET_SCORE_TOOL, args, a => getScore(a)) },
+  { definition: GET_DRUG_TOOL, handler: async args => addCodeLabels(await withNameResolution(GET_DRUG_TOOL, args, a => withPagination(a, getDrugMasterview, 'alerts'))) },
+  { definition: GET_TARGET_TOOL, handler: async args => addCodeLabels(await withNameResolution(GET_TARGET_TOOL, args, a => withPagination(a, getTargetMasterview, 'alerts'))) },
+  { definition: GET_TARGETS_TOOL, handler: args => withNameResolution(GET_TARGETS_TOOL, args, a => getTargets(a)) },
+  { definition: SEARCH_TARGETS_TOOL, handler: args => searchTargets(args) },
+  { definition: SEARCH_ADVERSE_EVENTS_TOOL, handler: args => searchAdverseEvents(args) },
+  { definition: GET_ADVERSE_EVENTS_TOOL, handler: args => withNameResolution(GET_ADVERSE_EVENTS_TOOL, args, a => getAdverseEvents(a)) },
+  { definition: COMPARE_DRUGS_TOOL, handler: args => compareDrugs(args) },
+  { definition: GET_DRUG_TARGET_LIABILITIES_TOOL, handler: args => withNameResolution(GET_DRUG_TARGET_LIABILITIES_TOOL, args, a => getDrugTargetLiabilities(a)) },
+  { definition: ALERT_TIMELINE_TOOL, handler: args => withNameResolution(ALERT_TIMELINE_TOOL, args, a => getAlertTimeline(a)) },
+  { definition: SUMMARIZE_ALERTS_TOOL, handler: args => withNameResolution(SUMMARIZE_ALERTS_TOOL, args, a => summarizeAlerts(a)) },
+  { definition: GENERATE_DRUG_SAFETY_REPORT_TOOL, handler: args => withNameResolution(GENERATE_DRUG_SAFETY_REPORT_TOOL, args, a => generateDrugSafetyReport(a)) },
+  { definition: ADD_TO_WATCHLIST_TOOL, handler: args => addToWatchlist(args) },
+  { definition: REMOVE_FROM_WATCHLIST_TOOL, handler: args => removeFromWatchlist(args) },
+  { definition: GET_WATCHLISTS_TOOL, handler: args => getWatchlists(args) },
+  { definition: GET_NEW_ALERTS_TOOL, handler: async args => addCodeLabels(await getNewAlerts(args)) },
+  { definition: GET_CACHE_STATS_TOOL, handler: () => getCacheStats() },
+  { definition: CLEAR_CACHE_TOOL, handler: args => clearCache(args) },
+  { definition: BATCH_TOOL, handler: args => runBatch(args) }
+];
+
+const TOOL_REGISTRY = new Map(TOOLS.map(entry => [entry.definition.name, entry]));
+
+const unknownDefaultFields = Object.keys(DEFAULT_FIELDS).filter(name => !TOOL_REGISTRY.has(name));
+if (unknownDefaultFields.length > 0) {
+  console.error(`Invalid OFFX_FIELDS_CONFIG: unknown tools ${unknownDefaultFields.join(', ')}`);
+  process.exit(1);
+}
+
+/**
+ * An OFFX entity exposed as an MCP resource template, read by URI such as
+ * offx://drug/11204 so clients can attach the entity to a conversation
+ */
+interface ResourceEntry {
+  template: { uriTemplate: string, name: string, description: string, mimeType: string };
+  read: (params: Record<string, string>) => Promise<unknown>;
+}
+
+// Registry of every resource template, in the order they are listed to clients
+const RESOURCE_TEMPLATES: ResourceEntry[] = [
+  {
+    template: {
+      uriTemplate: 'offx://drug/{drug_id}',
+      name: 'OFFX drug',
+      description: 'Drug masterview: drug details, adverse events and alerts (first page) for an OFFX drug_id',
+      mimeType: 'application/json'
+    },
+    read: async ({ drug_id }) => addCodeLabels(await getDrugMasterview({ drug_id, page: 1 }))
+  },
+  {
+    template: {
+      uriTemplate: 'offx://target/{target_id}/{action_id}',
+      name: 'OFFX target',
+      description: 'Target masterview: target details, adverse events and alerts (first page) for an OFFX target_id and action_id',
+      mimeType: 'application/json'
+    },
+    read: async ({ target_id, action_id }) => addCodeLabels(await getTargetMasterview({ target_id, action_id, page: 1 }))
+  },
+  {
+    template: {
+      uriTemplate: 'offx://adverse-event/{adverse_event_id}',
+      name: 'OFFX adverse event',
+      description: 'Targets associated with an OFFX adverse_event_id',
+      mimeType: 'application/json'
+    },
+    read: async ({ adverse_event_id }) => ({ adverse_event_id, targets: (await getTargetsByAdverseEvent({ adverse_event_id })).targets || [] })
+  }
+];
+
+const RESOURCE_URI_TEMPLATES = RESOURCE_TEMPLATES.map(entry => ({ entry, uriTemplate: new UriTemplate(entry.template.uriTemplate) }));
+
+/**
+ * Reads an offx:// resource. URIs not matching a template, or with
+ * parameters that are not single OFFX IDs, are reported as not found.
+ */
+async function readResource(uri: string) {
+  for (const { entry, uriTemplate } of RESOURCE_URI_TEMPLATES) {
+    const variables = uriTemplate.match(uri);
+    if (!variables || !Object.values(variables).every(value => typeof value === 'string' && /^\d+$/.test(value))) continue;
+    const result = await entry.read(variables as Record<string, string>);
+    return { contents: [{ uri, mimeType: entry.template.mimeType, text: JSON.stringify(result, null, 2) }] };
+  }
+  throw new McpError(-32002, `Resource not found: ${uri}`, { uri });
+}
+
+// Watched drugs and target/action pairs, listed as concrete resources
+async function listWatchedResources() {
+  const items = new Map<string, { uri: string, name: string, mimeType: string }>();
+  Object.values(await currentWatchlists().all()).forEach(list => list.items.forEach(item => {
+    const resource = item.type === 'drug'
+      ? { uri: `offx://drug/${item.drug_id}`, name: `Watched drug ${item.drug_id}`, mimeType: 'application/json' }
+      : { uri: `offx://target/${item.target_id}/${item.action_id}`, name: `Watched target ${item.target_id} (action ${item.action_id})`, mimeType: 'application/json' };
+    items.set(resource.uri, resource);
+  }));
+  return Array.from(items.values());
+}
+
+/**
+ * Validates arguments against the tool's inputSchema and runs its handler
+ * with the per-call cache_mode applied. The result is trimmed to the
+ * requested (or server default) fields, and results of tools taking a format
+ * argument are rendered as CSV, TSV or NDJSON when requested. Results over
+ * the response size limit are sliced; a call with a cursor returns the next
+ * slice without running the handler again.
+ */
+async function runTool(entry: ToolEntry, args: unknown) {
+  const cursor = args && typeof args === 'object' ? (args as Record<string, unknown>).cursor : undefined;
+  if (cursor !== undefined && cursor !== null && cursor !== '') {
+    if (typeof cursor !== 'string') {
+      throw new InvalidArgumentError('cursor must be a string', 'cursor');
+    }
+    return responseBudget.resume(entry.definition.name, cursor, currentRequestContext().client);
+  }
+  const validated = validateArguments(entry.definition.inputSchema, args);
+  const fields = entry.definition.inputSchema.properties?.fields
+    ? (validated.fields as string[] | undefined) ?? DEFAULT_FIELDS[entry.definition.name]
+    : undefined;
+  const invalidFields = fields && invalidFieldPath(fields);
+  if (invalidFields) {
+    throw new InvalidArgumentError(invalidFields, 'fields');
+  }
+  const cacheMode = (validated.cache_mode as CacheMode | undefined) || 'default';
+  const output = await withRequestContext({ cacheMode }, async () => entry.handler(validated));
+  const result = fields ? projectFields(output, fields) : output;
+  const format = validated.format as OutputFormat | undefined;
+  const rendered = format && format !== 'json'
+    ? formatRecords(result, format, schemaColumns(entry.definition.responseSchema))
+    : result;
+  return responseBudget.limit(entry.definition.name, rendered, currentRequestContext().client);
+}
+
+// Error details of a failed tool call, classified like the MCP and HTTP error responses
+function toolCallError(error: unknown) {
+  if (error instanceof InvalidArgumentError) {
+    return { type: 'invalid_argument', message: error.message, ...(error.field ? { field: error.field } : {}) };
+  }
+  if (error instanceof AmbiguousNameError) {
+    return { type: 'ambiguous_name', message: error.message, field: error.field, value: error.value, candidates: error.candidates };
   }
+  if (error instanceof QuotaExceededError) {
+    return { type: 'quota_exceeded', message: error.message, retry_after_seconds: error.retryAfterSeconds };
+  }
+  return { type: 'error', message: redactSecrets(error instanceof Error ? error.message : String(error)) };
+}
+
+/**
+ * Runs a tool call and logs its outcome with the request ID, tool name and
+ * latency. OFFX requests made by the call are logged with the same request ID.
+ */
+async function callTool(entry: ToolEntry, args: unknown) {
+  const tool = entry.definition.name;
+  const started = Date.now();
+  return withRequestContext({ tool }, async () => {
+    const { requestId, client } = currentRequestContext();
+    try {
+      const result = await runTool(entry, args);
+      toolCallsMetric.inc({ tool, status: 'ok' });
+      logger.info('Tool call', { request_id: requestId, tool, client, status: 'ok', latency_ms: Date.now() - started });
+      return result;
+    } catch (error) {
+      const { type, message } = toolCallError(error);
+      toolCallsMetric.inc({ tool, status: type });
+      const meta = { request_id: requestId, tool, client, status: type, latency_ms: Date.now() - started, error: message };
+      if (type === 'error') logger.error('Tool call failed', meta);
+      else logger.warn('Tool call failed', meta);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Runs the calls of a batch through callTool, OFFX_MAX_CONCURRENCY at a
+ * time. A failing call is recorded in its result instead of failing the batch.
+ */
+async function runBatch(args: { calls: { tool?: unknown, arguments?: unknown }[] }) {
+  if (args.calls.length > MAX_BATCH_CALLS) {
+    throw new InvalidArgumentError(`calls must contain at most ${MAX_BATCH_CALLS} calls`, 'calls');
+  }
+  const results = await mapWithConcurrency(args.calls, OFFX_MAX_CONCURRENCY, async call => {
+    const tool = String(call?.tool ?? '');
+    try {
+      const entry = TOOL_REGISTRY.get(tool);
+      if (!entry) {
+        throw new InvalidArgumentError(`Unknown tool: ${tool}`, 'tool');
+      }
+      if (entry.definition === BATCH_TOOL) {
+        throw new InvalidArgumentError('batch calls cannot be nested', 'tool');
+      }
+      const result = await callTool(entry, call.arguments);
+      return result instanceof FormattedOutput
+        ? { tool, ok: true, format: result.format, result: result.body, ...(result.continuation ? { continuation: result.continuation } : {}) }
+        : { tool, ok: true, result };
+    } catch (error) {
+      return { tool, ok: false, error: toolCallError(error) };
+    }
+  });
+  const succeeded = results.filter(result => result.ok).length;
+  return { succeeded, failed: results.length - succeeded, results };
+}
+
+// Text sent back for a tool result: formatted output as is, anything else as JSON
+const toolResultText = (result: unknown, indent?: number) =>
+  result instanceof FormattedOutput ? result.body : JSON.stringify(result, null, indent);
+
+// HTTP /list_tools representation of a tool: one entry per input property
+function describeToolForHttp(definition: ToolDefinition) {
+  return {
+    name: definition.name,
+    description: definition.description,
+    schema: Object.entries(definition.inputSchema.properties || {}).map(([name, property]) => ({ name, ...property }))
+  };
+}
+
+// Request ID of an HTTP tool call: the caller's X-Request-Id when it is a plain token, else a new one
+function requestIdFrom(req: http.IncomingMessage): string {
+  const header = req.headers['x-request-id'];
+  return typeof header === 'string' && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+}
+
+/**
+ * Per-call settings for a tool call made by an authenticated HTTP client: its
+ * OFFX token, and a quota check before every OFFX request. `offxRequests`
+ * counts the requests for the audit trail.
+ */
+function clientRequestContext(client: ClientConfig) {
+  const usage = { offxRequests: 0 };
+  const context = {
+    client: client.name,
+    token: client.offxToken,
+    beforeRequest: () => {
+      clientRegistry?.consume(client);
+      usage.offxRequests++;
+    }
+  };
+  return { context, usage };
 }
 
 // Unified error response helper
-function sendError(res: http.ServerResponse, message: string, code: number = 400) {
+function sendError(res: http.ServerResponse, message: string, code: number = 400, details?: Record<string, unknown>) {
   res.writeHead(code, { 'Content-Type': 'application/json' });
-  res.end(JSON.stringify({ error: message, code }));
+  res.end(JSON.stringify({ error: redactSecrets(message), code, ...details }));
+}
+
+/**
+ * Creates an MCP server with all OFFX tool handlers registered.
+ * Stdio mode uses a single instance; the network transport creates one per session.
+ */
+function createMcpServer() {
+  const server = new Server(
+    {
+      name: 'offx',
+      version: '0.1.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {}
+      }
+    }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: TOOLS.map(entry => entry.definition)
+  }));
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }))
+  }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const prompt = PROMPTS.find(candidate => candidate.name === request.params.name);
+    if (!prompt) {
+      throw new McpError(-32602, `Unknown prompt: ${request.params.name}`);
+    }
+    try {
+      const text = renderPrompt(prompt, request.params.arguments);
+      return { description: prompt.description, messages: [{ role: 'user', content: { type: 'text', text } }] };
+    } catch (error) {
+      if (error instanceof InvalidArgumentError) {
+        throw new McpError(-32602, error.message, error.field ? { field: error.field } : undefined);
+      }
+      throw error;
+    }
+  });
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES.map(entry => entry.template)
+  }));
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listWatchedResources()
+  }));
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    try {
+      return await withRequestContext({ requestId: randomUUID() }, () => readResource(request.params.uri));
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      throw new McpError(-32603, redactSecrets(error instanceof Error ? error.message : String(error)));
+    }
+  });
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const toolName = request.params?.name;
+    const entry = TOOL_REGISTRY.get(toolName);
+    if (!entry) {
+      throw new McpError(-32602, `Unknown tool: ${toolName}`);
+    }
+    try {
+      const result = await withRequestContext({ requestId: randomUUID() }, () => callTool(entry, request.params.arguments));
+      const content = [{ type: 'text', text: toolResultText(result, 2) }];
+      // Formatted text has no room for the continuation, so it follows as a second item
+      if (result instanceof FormattedOutput && result.continuation) {
+        content.push({ type: 'text', text: JSON.stringify({ continuation: result.continuation }, null, 2) });
+      }
+      return { content, isError: false };
+    } catch (error) {
+      if (error instanceof InvalidArgumentError) {
+        throw new McpError(-32602, error.message, error.field ? { field: error.field } : undefined);
+      }
+      if (error instanceof AmbiguousNameError) {
+        const text = JSON.stringify({ error: error.message, field: error.field, value: error.value, candidates: error.candidates }, null, 2);
+        return { content: [{ type: 'text', text }], isError: true };
+      }
+      throw new McpError(-32603, redactSecrets(error instanceof Error ? error.message : String(error)));
+    }
+  });
+  return server;
 }
 
 /**
@@ -1400,352 +2802,120 @@ async function runServer() {
         return;
       }
 
+      // Every other endpoint, /metrics included, needs a client API key when OFFX_CLIENTS_FILE is set
+      const client = clientRegistry?.authenticate(req.headers);
+      if (clientRegistry && !client) {
+        logger.warn('Unauthorized HTTP request', { method, path: url, remote_address: req.socket.remoteAddress });
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendError(res, 'Missing or invalid API key', 401);
+        return;
+      }
+
+      // Prometheus metrics endpoint
+      if (method === 'GET' && url === '/metrics') {
+        res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+        res.end(metrics.render());
+        return;
+      }
+
       // List tools endpoint
       if (method === 'POST' && url === '/list_tools') {
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          tools: [
-            {
-              name: 'search_drugs',
-              description: SEARCH_DRUGS_TOOL.description,
-              schema: [
-                { name: 'drug', type: 'string', description: 'Drug name (required)' }
-              ]
-            },
-            {
-              name: 'get_drugs',
-              description: GET_DRUGS_TOOL.description,
-              schema: [
-                { name: 'target_id', type: 'string', description: 'Target identifier (OFFX target_id)' },
-                { name: 'action_id', type: 'string', description: 'Action identifier (OFFX action_id)' },
-                { name: 'adverse_event_id', type: 'string', description: 'Adverse event identifier (OFFX adverse_event_id)' },
-                { name: 'page', type: 'number', description: 'Page number (default: 1)', default: 1 }
-              ]
-            },
-            {
-              name: 'get_alerts',
-              description: GET_ALERTS_TOOL.description,
-              schema: [
-                { name: 'drug_id', type: 'string', description: 'Drug identifier (OFFX drug_id, optional)' },
-                { name: 'target_id', type: 'string', description: 'Target identifier (OFFX target_id, optional)' },
-                { name: 'action_id', type: 'string', description: 'Action ID (optional, for target alerts)' },
-                { name: 'page', type: 'number', description: 'Page number (required)' },
-                { name: 'adverse_event_id', type: 'string', description: 'Adverse Event ID (optional)' },
-                { name: 'ref_source_type', type: 'string', description: 'Reference source type (optional, comma separated number)',
-                  enum: ['9','10','11','27','24','22','23','25','12','13','14','15','16','17','18','19','20','21','26'],
-                  enumDescriptions: {
-                    '9': 'Congress', '10': 'Website Reference', '11': 'Company Communication', '27': 'Health Organization', '24': 'Database', '22': 'DailyMed', '23': 'Regulatory Agency Briefing', '25': 'Patent', '12': 'Medical Society Communication', '13': 'Research Institution Communication', '14': 'Regulatory Agency Communication', '15': 'Regulatory Agency Guideline', '16': 'Patient Advocacy Group communication', '17': 'Other', '18': 'Book', '19': 'Journal', '20': 'Congress Alert', '21': 'Congress & Conferences', '26': 'Clinical Trial Registry'
-                  },
-                  format: 'Comma separated number(s), e.g. 9 or 9,10,11'
-                },
-                { name: 'alert_type', type: 'string', description: 'Alert Type (optional, comma separated number): 1 = Class Alert, 2 = Drug Alert, 1,2 = both', enum: ['1','2','1,2'], enumDescriptions: { '1': 'Class Alert', '2': 'Drug Alert', '1,2': 'Both' }, format: 'Comma separated number(s), e.g. 1 or 1,2', examples: ['1','2','1,2'] },
-                { name: 'alert_phase', type: 'string', description: 'Alert Phase (optional, comma separated number)',
-                  enum: ['1','2','3','4','5','6','7','8','9','10','11','12'],
-                  enumDescriptions: {
-                    '1': 'Clinical/Postmarketing', '2': 'Preclinical', '3': 'Clinical', '4': 'Postmarketing', '5': 'Target Discovery', '6': 'Phase I', '7': 'Phase II', '8': 'Phase III', '9': 'Phase IV', '10': 'Phase I/II', '11': 'Phase II/III', '12': 'Phase III/IV'
-                  },
-                  format: 'Comma separated number(s), e.g. 1 or 1,2,3',
-                  examples: ['1','1,2','1,2,3,4,5,6']
-                },
-                { name: 'alert_level_evidence', type: 'string', description: 'Level of evidence (optional, comma separated number)',
-                  enum: ['1','2','3'],
-                  enumDescriptions: { '1': 'Confirmed/Reported', '2': 'Suspected', '3': 'Refuted/Not Associated' },
-                  format: 'Comma separated number(s), e.g. 1 or 1,2',
-                  examples: ['1','2','1,2']
-                },
-                { name: 'alert_onoff_target', type: 'string', description: 'On/Off target (optional, comma separated number)',
-                  enum: ['1','2','3'],
-                  enumDescriptions: { '1': 'On-Target', '2': 'Off-Target', '3': 'Not Specified' },
-                  format: 'Comma separated number(s), e.g. 1 or 1,2',
-                  examples: ['1','2','1,2']
-                },
-                { name: 'alert_severity', type: 'string', description: 'Alert Severity (optional, string: yes or no)', enum: ['yes','no'], examples: ['yes','no'] },
-                { name: 'alert_causality', type: 'string', description: 'Alert Causality (optional)' },
-                { name: 'alert_species', type: 'string', description: 'Alert Species (optional)' },
-                { name: 'alert_date_from', type: 'string', description: 'Date from (optional, YYYY-MM-DD)' },
-                { name: 'alert_date_to', type: 'string', description: 'Date to (optional, YYYY-MM-DD)' },
-                { name: 'order_by_date', type: 'string', description: 'Order by date (optional)' },
-                { name: 'order_by_adv', type: 'string', description: 'Order by adverse event (optional)' }
-              ]
-            },
-            {
-              name: 'get_score',
-              description: GET_SCORE_TOOL.description,
-              schema: [
-                { name: 'drug_id', type: 'string', description: 'Drug identifier (OFFX drug_id, required for drug score)' },
-                { name: 'adverse_event_id', type: 'string', description: 'Adverse event identifier (optional)' },
-                { name: 'target_id', type: 'string', description: 'Target identifier (OFFX target_id, required for target/class score)' },
-                { name: 'action_id', type: 'string', description: 'Action identifier (OFFX action_id, required for target/class score)' }
-              ]
-            },
-            {
-              name: 'get_drug',
-              description: GET_DRUG_TOOL.description,
-              schema: [
-                { name: 'drug_id', type: 'string', description: 'Drug identifier (OFFX drug_id, required)' },
-                { name: 'page', type: 'number', description: 'Page number (required)' },
-                { name: 'adverse_event_id', type: 'string', description: 'Adverse Event ID (optional)' },
-                { name: 'ref_source_type', type: 'string', description: 'Reference source type (optional, comma separated number)',
-                  enum: ['9','10','11','27','24','22','23','25','12','13','14','15','16','17','18','19','20','21','26'],
-                  enumDescriptions: {
-                    '9': 'Congress', '10': 'Website Reference', '11': 'Company Communication', '27': 'Health Organization', '24': 'Database', '22': 'DailyMed', '23': 'Regulatory Agency Briefing', '25': 'Patent', '12': 'Medical Society Communication', '13': 'Research Institution Communication', '14': 'Regulatory Agency Communication', '15': 'Regulatory Agency Guideline', '16': 'Patient Advocacy Group communication', '17': 'Other', '18': 'Book', '19': 'Journal', '20': 'Congress Alert', '21': 'Congress & Conferences', '26': 'Clinical Trial Registry'
-                  },
-                  format: 'Comma separated number(s), e.g. 9 or 9,10,11'
-                },
-                { name: 'alert_type', type: 'string', description: 'Alert Type (optional, comma separated number): 1 = Class Alert, 2 = Drug Alert, 1,2 = both', enum: ['1','2','1,2'], enumDescriptions: { '1': 'Class Alert', '2': 'Drug Alert', '1,2': 'Both' }, format: 'Comma separated number(s), e.g. 1 or 1,2', examples: ['1','2','1,2'] },
-                { name: 'alert_phase', type: 'string', description: 'Alert Phase (optional, comma separated number)',
-                  enum: ['1','2','3','4','5','6','7','8','9','10','11','12'],
-                  enumDescriptions: {
-                    '1': 'Clinical/Postmarketing', '2': 'Preclinical', '3': 'Clinical', '4': 'Postmarketing', '5': 'Target Discovery', '6': 'Phase I', '7': 'Phase II', '8': 'Phase III', '9': 'Phase IV', '10': 'Phase I/II', '11': 'Phase II/III', '12': 'Phase III/IV'
-                  },
-                  format: 'Comma separated number(s), e.g. 1 or 1,2,3',
-                  examples: ['1','1,2','1,2,3,4,5,6']
-                },
-                { name: 'alert_level_evidence', type: 'string', description: 'Level of evidence (optional, comma separated number)',
-                  enum: ['1','2','3'],
-                  enumDescriptions: { '1': 'Confirmed/Reported', '2': 'Suspected', '3': 'Refuted/Not Associated' },
-                  format: 'Comma separated number(s), e.g. 1 or 1,2',
-                  examples: ['1','2','1,2']
-                },
-                { name: 'alert_severity', type: 'string', description: 'Alert Severity (optional, string: yes or no)', enum: ['yes','no'], examples: ['yes','no'] },
-                { name: 'alert_causality', type: 'string', description: 'Alert Causality (optional)' },
-                { name: 'alert_species', type: 'string', description: 'Alert Species (optional)' },
-                { name: 'alert_date_from', type: 'string', description: 'Date from (optional, YYYY-MM-DD)' },
-                { name: 'alert_date_to', type: 'string', description: 'Date to (optional, YYYY-MM-DD)' }
-              ]
-            },
-            {
-              name: 'search_adverse_events',
-              description: SEARCH_ADVERSE_EVENTS_TOOL.description,
-              schema: [
-                { name: 'adverse_event', type: 'string', description: 'Adverse event name (min 3 chars, required)' }
-              ]
-            },
-            {
-              name: 'get_adverse_events',
-              description: GET_ADVERSE_EVENTS_TOOL.description,
-              schema: [
-                { name: 'drug_id', type: 'string', description: 'Drug identifier (OFFX drug_id, optional)' },
-                { name: 'target_id', type: 'string', description: 'Target identifier (OFFX target_id, optional)' }
-              ]
-            },
-            {
-              name: 'search_targets',
-              description: SEARCH_TARGETS_TOOL.description,
-              schema: [
-                { name: 'target', type: 'string', description: 'Target name (required)' }
-              ]
-            },
-            {
-              name: 'get_target',
-              description: GET_TARGET_TOOL.description,
-              schema: [
-                { name: 'target_id', type: 'string', description: 'Target identifier (OFFX target_id, required)' },
-                { name: 'action_id', type: 'string', description: 'Action identifier (OFFX action_id, required)' },
-                { name: 'page', type: 'number', description: 'Page number (required)' },
-                { name: 'adverse_event_id', type: 'string', description: 'Adverse Event ID (optional)' },
-                { name: 'ref_source_type', type: 'string', description: 'Reference source type (optional, comma separated number)',
-                  enum: ['9','10','11','27','24','22','23','25','12','13','14','15','16','17','18','19','20','21','26'],
-                  enumDescriptions: {
-                    '9': 'Congress', '10': 'Website Reference', '11': 'Company Communication', '27': 'Health Organization', '24': 'Database', '22': 'DailyMed', '23': 'Regulatory Agency Briefing', '25': 'Patent', '12': 'Medical Society Communication', '13': 'Research Institution Communication', '14': 'Regulatory Agency Communication', '15': 'Regulatory Agency Guideline', '16': 'Patient Advocacy Group communication', '17': 'Other', '18': 'Book', '19': 'Journal', '20': 'Congress Alert', '21': 'Congress & Conferences', '26': 'Clinical Trial Registry'
-                  },
-                  format: 'Comma separated number(s), e.g. 9 or 9,10,11'
-                },
-                { name: 'alert_type', type: 'string', description: 'Alert Type (optional, comma separated number): 1 = Class Alert, 2 = Drug Alert, 1,2 = both', enum: ['1','2','1,2'], enumDescriptions: { '1': 'Class Alert', '2': 'Drug Alert', '1,2': 'Both' }, format: 'Comma separated number(s), e.g. 1 or 1,2', examples: ['1','2','1,2'] },
-                { name: 'alert_phase', type: 'string', description: 'Alert Phase (optional, comma separated number)',
-                  enum: ['1','2','3','4','5','6','7','8','9','10','11','12'],
-                  enumDescriptions: {
-                    '1': 'Clinical/Postmarketing', '2': 'Preclinical', '3': 'Clinical', '4': 'Postmarketing', '5': 'Target Discovery', '6': 'Phase I', '7': 'Phase II', '8': 'Phase III', '9': 'Phase IV', '10': 'Phase I/II', '11': 'Phase II/III', '12': 'Phase III/IV'
-                  },
-                  format: 'Comma separated number(s), e.g. 1 or 1,2,3',
-                  examples: ['1','1,2','1,2,3,4,5,6']
-                },
-                { name: 'alert_level_evidence', type: 'string', description: 'Level of evidence (optional, comma separated number)',
-                  enum: ['1','2','3'],
-                  enumDescriptions: { '1': 'Confirmed/Reported', '2': 'Suspected', '3': 'Refuted/Not Associated' },
-                  format: 'Comma separated number(s), e.g. 1 or 1,2',
-                  examples: ['1','2','1,2']
-                },
-                { name: 'alert_onoff_target', type: 'string', description: 'On/Off target (optional, comma separated number)',
-                  enum: ['1','2','3'],
-                  enumDescriptions: { '1': 'On-Target', '2': 'Off-Target', '3': 'Not Specified' },
-                  format: 'Comma separated number(s), e.g. 1 or 1,2',
-                  examples: ['1','2','1,2']
-                },
-                { name: 'alert_severity', type: 'string', description: 'Alert Severity (optional, string: yes or no)', enum: ['yes','no'], examples: ['yes','no'] },
-                { name: 'alert_causality', type: 'string', description: 'Alert Causality (optional)' },
-                { name: 'alert_species', type: 'string', description: 'Alert Species (optional)' },
-                { name: 'alert_date_from', type: 'string', description: 'Date from (optional, YYYY-MM-DD)' },
-                { name: 'alert_date_to', type: 'string', description: 'Date to (optional, YYYY-MM-DD)' },
-                { name: 'order_by_date', type: 'string', description: 'Order by date (optional)' },
-                { name: 'order_by_adv', type: 'string', description: 'Order by adverse event (optional)' }
-              ]
-            },
-            {
-              name: 'get_targets',
-              description: GET_TARGETS_TOOL.description,
-              schema: [
-                { name: 'drug_id', type: 'string', description: 'Drug identifier (OFFX drug_id, required for primary/secondary targets)' },
-                { name: 'type', type: 'string', enum: ['primary', 'secondary'], description: 'Type of targets to fetch: "primary" or "secondary" (required if drug_id is used)' },
-                { name: 'adverse_event_id', type: 'string', description: 'Adverse event identifier (OFFX adverse_event_id, required for adverse event search)' }
-              ]
-            }
-          ]
-        }));
+        res.end(JSON.stringify({ tools: TOOLS.map(entry => describeToolForHttp(entry.definition)) }));
         return;
       }
 
-      // Helper to parse JSON body
-      const parseBody = (req: http.IncomingMessage) => new Promise<any>((resolve, reject) => {
-        let body = '';
-        req.on('data', chunk => { body += chunk; });
-        req.on('end', () => {
-          try { resolve(JSON.parse(body)); } catch (e) { reject(e); }
-        });
-      });
-
       // Routing for all tools
       if (method === 'POST') {
-        let data: any;
-        let result: any;
+        const entry = TOOL_REGISTRY.get(url.replace(/^\//, ''));
+        if (!entry) {
+          sendError(res, 'Not found', 404);
+          return;
+        }
+        const requestId = requestIdFrom(req);
+        res.setHeader('X-Request-Id', requestId);
+        httpInFlightMetric.inc();
+        const started = Date.now();
+        const { context, usage } = client ? clientRequestContext(client) : { context: {}, usage: undefined };
+        let args: unknown;
+        // Calls of authenticated clients are written to their audit file before the response is sent
+        const audit = (error?: unknown) => {
+          if (!client || !usage || !auditLog) return Promise.resolve();
+          const failure = error === undefined ? undefined : toolCallError(error);
+          return auditLog.record({
+            time: new Date(started).toISOString(),
+            request_id: requestId,
+            client: client.name,
+            tool: entry.definition.name,
+            arguments: args,
+            status: failure ? failure.type : 'ok',
+            ...(failure ? { error: failure.message } : {}),
+            latency_ms: Date.now() - started,
+            offx_requests: usage.offxRequests
+          });
+        };
         try {
-          data = await parseBody(req);
-          const url = req.url || '';
-          if (url === '/search_drugs') {
-            result = await searchDrugsByName(data);
-          } else if (url === '/get_drugs') {
-            result = await getDrugs(data);
-          } else if (url === '/get_alerts') {
-            result = await getAlerts(data);
-          } else if (url === '/get_score') {
-            result = await getScore(data);
-          } else if (url === '/get_drug') {
-            result = await getDrugMasterview(data);
-          } else if (url === '/search_adverse_events') {
-            result = await searchAdverseEvents(data);
-          } else if (url === '/get_adverse_events') {
-            result = await getAdverseEvents(data);
-          } else if (url === '/search_targets') {
-            result = await searchTargets(data);
-          } else if (url === '/get_target') {
-            result = await getTargetMasterview(data);
-          } else if (url === '/get_targets') {
-            result = await getTargets(data);
-          } else {
-            sendError(res, 'Not found', 404);
-            return;
+          const data = await parseJsonBody(req);
+          // An Accept header asking for CSV, TSV or NDJSON stands in for the format argument
+          const accepted = formatFromAccept(req.headers.accept);
+          const supportsFormat = !!entry.definition.inputSchema.properties?.format;
+          args = accepted && supportsFormat && (data === undefined || (typeof data === 'object' && data !== null && !('format' in data)))
+            ? { ...(data as Record<string, unknown> | undefined), format: accepted }
+            : data;
+          const result = await withRequestContext({ ...context, requestId }, () => callTool(entry, args));
+          await audit();
+          const headers: http.OutgoingHttpHeaders = { 'Content-Type': result instanceof FormattedOutput ? result.contentType : 'application/json' };
+          if (result instanceof FormattedOutput && result.continuation) {
+            headers['X-Continuation-Cursor'] = result.continuation.cursor;
+            headers['X-Continuation-Remaining'] = String(result.continuation.remaining);
           }
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify(result));
+          res.writeHead(200, headers);
+          res.end(toolResultText(result));
         } catch (err) {
+          await audit(err);
+          if (err instanceof InvalidArgumentError) {
+            sendError(res, err.message, 400, err.field ? { field: err.field } : undefined);
+            return;
+          }
+          if (err instanceof AmbiguousNameError) {
+            sendError(res, err.message, 409, { field: err.field, value: err.value, candidates: err.candidates });
+            return;
+          }
+          if (err instanceof QuotaExceededError) {
+            res.setHeader('Retry-After', String(err.retryAfterSeconds));
+            sendError(res, err.message, 429, { retry_after_seconds: err.retryAfterSeconds });
+            return;
+          }
           sendError(res, err instanceof Error ? err.message : String(err));
+        } finally {
+          httpInFlightMetric.dec();
         }
       } else {
         sendError(res, 'Not found', 404);
       }
     });
     server.listen(PORT, () => {
-      console.log(`OFFX MCP Server running on http://localhost:${PORT}`);
+      logger.info(`OFFX MCP Server running on http://localhost:${PORT}`);
     });
     return;
   }
-  // MCP mode (stdio only)
-  const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
-  const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
-  const { CallToolRequestSchema, ListToolsRequestSchema, McpError } = await import('@modelcontextprotocol/sdk/types.js');
-  const server = new Server(
-    {
-      name: 'offx',
-      version: '0.1.0',
-    },
-    {
-      capabilities: {
-        tools: {}
-      }
-    }
-  );
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [SEARCH_DRUGS_TOOL, GET_DRUGS_TOOL, GET_ALERTS_TOOL, GET_SCORE_TOOL, GET_DRUG_TOOL, GET_TARGET_TOOL, GET_TARGETS_TOOL, SEARCH_TARGETS_TOOL, SEARCH_ADVERSE_EVENTS_TOOL, GET_ADVERSE_EVENTS_TOOL]
-  }));
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const toolName = request.params?.name;
-    const args = request.params.arguments;
-    try {
-      switch (toolName) {
-        case 'search_drugs': {
-          let drug: string | undefined;
-          if (typeof args === 'object' && args !== null && 'drug' in args) {
-            drug = String((args as any).drug);
-          } else if (typeof args === 'string') {
-            drug = args as string;
-          }
-          if (!drug) throw new McpError(-32602, 'drug is required');
-          const result = await searchDrugsByName({ drug });
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        case 'get_drugs': {
-          const result = await getDrugs(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        case 'get_alerts': {
-          const result = await getAlerts(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        case 'get_score': {
-          const result = await getScore(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        case 'get_drug': {
-          const result = await getDrugMasterview(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        case 'search_targets': {
-          let target: string | undefined;
-          if (typeof args === 'object' && args !== null && 'target' in args) {
-            target = String((args as any).target);
-          } else if (typeof args === 'string') {
-            target = args as string;
-          }
-          if (!target) throw new McpError(-32602, 'target is required');
-          const result = await searchTargets({ target });
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        case 'search_adverse_events': {
-          let adverse_event: string | undefined;
-          if (typeof args === 'object' && args !== null && 'adverse_event' in args) {
-            adverse_event = String((args as any).adverse_event);
-          } else if (typeof args === 'string') {
-            adverse_event = args as string;
-          }
-          if (!adverse_event) throw new McpError(-32602, 'adverse_event is required');
-          const result = await searchAdverseEvents({ adverse_event });
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        case 'get_adverse_events': {
-          const result = await getAdverseEvents(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        case 'get_target': {
-          const result = await getTargetMasterview(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        case 'get_targets': {
-          const result = await getTargets(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: false };
-        }
-        default:
-          throw new McpError(-32603, 'Unknown tool');
-      }
-      } catch (error) {
-      throw new McpError(-32603, error instanceof Error ? error.message : String(error));
-    }
-  });
+  if (TRANSPORT === 'sse') {
+    startMcpHttpServer({
+      port: PORT,
+      path: SSE_PATH,
+      sessionTimeoutMs: MCP_SESSION_TIMEOUT_MS,
+      createServer: createMcpServer,
+      logger
+    });
+    return;
+  }
+  const server = createMcpServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.log('OFFX MCP Server running in MCP stdio mode');
+  logger.info('OFFX MCP Server running in MCP stdio mode');
 }
 
 runServer().catch((error) => {
-  console.error('Server error:', error);
+  logger.error('Server error', { error: error instanceof Error ? error.stack || error.message : String(error) });
   process.exit(1);
 });
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import { redactSecrets } from './util.js';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+/**
+ * Log line format: human-readable text, or one JSON object per line with
+ * the metadata as top-level fields
+ */
+export type LogFormat = 'text' | 'json';
+
+export const LOG_FORMATS: LogFormat[] = ['text', 'json'];
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  /** Appends to this file instead of writing to stderr */
+  file?: string;
+}
+
+export interface Logger {
+  error: (message: string, meta?: Record<string, unknown>) => void;
+  warn: (message: string, meta?: Record<string, unknown>) => void;
+  info: (message: string, meta?: Record<string, unknown>) => void;
+  debug: (message: string, meta?: Record<string, unknown>) => void;
+}
+
+/**
+ * Creates the server logger. Lines go to stderr or a file, never to stdout,
+ * which carries the JSON-RPC messages in stdio mode. File writes are
+ * synchronous so nothing is lost when the process exits right after logging.
+ * Registered secrets are redacted from every line.
+ */
+export function createLogger(options: LoggerOptions): Logger {
+  const threshold = LOG_LEVELS.indexOf(options.level);
+  const fd = options.file ? fs.openSync(options.file, 'a') : undefined;
+  const write = (line: string) => (fd === undefined ? process.stderr.write(line) : fs.writeSync(fd, line));
+
+  const format = (level: LogLevel, message: string, meta?: Record<string, unknown>) => {
+    const time = new Date().toISOString();
+    if (options.format === 'json') {
+      return JSON.stringify({ time, level, message, ...meta });
+    }
+    const metaText = meta && Object.keys(meta).length > 0 ? ` | ${JSON.stringify(meta)}` : '';
+    return `[${time}] ${level.toUpperCase()}: ${message}${metaText}`;
+  };
+
+  const log = (level: LogLevel) => (message: string, meta?: Record<string, unknown>) => {
+    if (LOG_LEVELS.indexOf(level) > threshold) return;
+    write(redactSecrets(format(level, message, meta)) + '\n');
+  };
+
+  return {
+    error: log('error'),
+    warn: log('warn'),
+    info: log('info'),
+    debug: log('debug')
+  };
+}
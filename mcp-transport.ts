@@ -0,0 +1,194 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from 'crypto';
+import http from 'http';
+
+/**
+ * Minimal logging surface used by the network transport
+ */
+export interface TransportLogger {
+  info: (message: string, meta?: any) => void;
+  error: (message: string, meta?: any) => void;
+}
+
+export interface McpHttpServerOptions {
+  port: number;
+  /** Path of the Streamable HTTP endpoint; legacy SSE is served at `${path}/sse` */
+  path: string;
+  /** Sessions without traffic for this long are closed */
+  sessionTimeoutMs: number;
+  /** Builds a fresh MCP server for each session */
+  createServer: () => Server;
+  logger: TransportLogger;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  lastSeen: number;
+  /** Streams held open by the client; a session with an open stream is never idle */
+  openStreams: number;
+}
+
+/**
+ * Reads and parses a JSON request body
+ */
+export function parseJsonBody(req: http.IncomingMessage) {
+  return new Promise<any>((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try { resolve(body ? JSON.parse(body) : undefined); } catch (e) { reject(e); }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Starts an HTTP server that hosts MCP over the network for any number of
+ * concurrent clients. Each session gets its own MCP server instance sharing
+ * the same tool handlers.
+ *
+ * - `POST|GET|DELETE {path}`: Streamable HTTP transport (session via `mcp-session-id`)
+ * - `GET {path}/sse` + `POST {path}/messages?sessionId=...`: legacy SSE transport
+ */
+export function startMcpHttpServer(options: McpHttpServerOptions): http.Server {
+  const { path, logger } = options;
+  const ssePath = `${path}/sse`;
+  const messagesPath = `${path}/messages`;
+  const sessions = new Map<string, Session>();
+
+  const closeSession = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    session.server.close().catch(error => {
+      logger.error('Failed to close MCP session', { sessionId, error: String(error) });
+    });
+    logger.info('MCP session closed', { sessionId, activeSessions: sessions.size });
+  };
+
+  const registerSession = (sessionId: string, session: Session) => {
+    sessions.set(sessionId, session);
+    logger.info('MCP session opened', { sessionId, activeSessions: sessions.size });
+  };
+
+  const handleStreamableRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await parseJsonBody(req);
+      } catch {
+        sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON');
+        return;
+      }
+    }
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastSeen = Date.now();
+      // A GET opens the stream of server-initiated messages, which stays open until the client leaves
+      if (req.method === 'GET') {
+        session.openStreams++;
+        res.on('close', () => {
+          session.openStreams--;
+          session.lastSeen = Date.now();
+        });
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const server = options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => registerSession(id, { transport, server, lastSeen: Date.now(), openStreams: 0 })
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) closeSession(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: http.ServerResponse) => {
+    const server = options.createServer();
+    const transport = new SSEServerTransport(messagesPath, res);
+    const sessionId = transport.sessionId;
+    // The session lasts as long as its event stream, however quiet the client is
+    registerSession(sessionId, { transport, server, lastSeen: Date.now(), openStreams: 1 });
+    res.on('close', () => closeSession(sessionId));
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: http.IncomingMessage, res: http.ServerResponse, sessionId: string | null) => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!sessionId || !session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    session.lastSeen = Date.now();
+    await session.transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const method = req.method || '';
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      if (method === 'GET' && url.pathname === '/health') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      } else if (url.pathname === path && ['GET', 'POST', 'DELETE'].includes(method)) {
+        await handleStreamableRequest(req, res);
+      } else if (method === 'GET' && url.pathname === ssePath) {
+        await handleSseConnect(res);
+      } else if (method === 'POST' && url.pathname === messagesPath) {
+        await handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      } else {
+        sendJsonRpcError(res, 404, -32601, 'Not found');
+      }
+    } catch (error) {
+      logger.error('MCP transport error', { path: url.pathname, error: String(error) });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  // Close sessions whose clients went away without saying goodbye
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - options.sessionTimeoutMs;
+    sessions.forEach((session, sessionId) => {
+      if (session.openStreams === 0 && session.lastSeen < cutoff) closeSession(sessionId);
+    });
+  }, Math.max(1000, Math.min(options.sessionTimeoutMs, 60000)));
+  sweep.unref();
+
+  httpServer.on('close', () => {
+    clearInterval(sweep);
+    Array.from(sessions.keys()).forEach(closeSession);
+  });
+
+  httpServer.listen(options.port, () => {
+    logger.info(`OFFX MCP Server running on http://localhost:${options.port}${path} (Streamable HTTP) and ${ssePath} (SSE)`);
+  });
+  return httpServer;
+}
@@ -0,0 +1,153 @@
+/**
+ * Label values of one time series, e.g. { tool: 'get_alerts', status: 'ok' }
+ */
+export type Labels = Record<string, string>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Current values of a metric, as rendered for a scrape
+ */
+export interface MetricSnapshot {
+  name: string;
+  help: string;
+  type: MetricType;
+  /** One sample per series; histograms use the _bucket/_sum/_count suffixes in `name` */
+  samples: { name?: string, labels: Labels, value: number }[];
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  inc(labels?: Labels): void;
+  dec(labels?: Labels): void;
+}
+
+export interface Histogram {
+  observe(value: number, labels?: Labels): void;
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  gauge(name: string, help: string): Gauge;
+  /** `buckets` are the upper bounds, in increasing order; +Inf is added */
+  histogram(name: string, help: string, buckets: number[]): Histogram;
+  /** Adds metrics read from elsewhere (e.g. cache statistics) each time metrics are rendered */
+  collect(collector: () => MetricSnapshot[]): void;
+  /** All metrics in the Prometheus text exposition format */
+  render(): string;
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Series are keyed by their labels in a stable order
+const seriesKey = (labels: Labels) => JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Creates an in-memory metrics registry rendered in the Prometheus text
+ * format. Metrics are kept for the lifetime of the process.
+ */
+export function createMetricsRegistry(): MetricsRegistry {
+  const snapshots: (() => MetricSnapshot[])[] = [];
+
+  const series = <T>(create: () => T) => {
+    const all = new Map<string, { labels: Labels, value: T }>();
+    return {
+      all,
+      get(labels: Labels): T {
+        const key = seriesKey(labels);
+        let entry = all.get(key);
+        if (!entry) {
+          entry = { labels, value: create() };
+          all.set(key, entry);
+        }
+        return entry.value;
+      }
+    };
+  };
+
+  const simple = (name: string, help: string, type: 'counter' | 'gauge') => {
+    const values = series(() => ({ value: 0 }));
+    snapshots.push(() => [{
+      name,
+      help,
+      type,
+      samples: [...values.all.values()].map(({ labels, value }) => ({ labels, value: value.value }))
+    }]);
+    return (labels: Labels, delta: number) => {
+      values.get(labels).value += delta;
+    };
+  };
+
+  return {
+    counter(name, help) {
+      const add = simple(name, help, 'counter');
+      return { inc: (labels = {}, value = 1) => add(labels, value) };
+    },
+
+    gauge(name, help) {
+      const add = simple(name, help, 'gauge');
+      // Unlabeled gauges report 0 before their first change
+      add({}, 0);
+      return {
+        inc: (labels = {}) => add(labels, 1),
+        dec: (labels = {}) => add(labels, -1)
+      };
+    },
+
+    histogram(name, help, buckets) {
+      const values = series(() => ({ counts: buckets.map(() => 0), sum: 0, count: 0 }));
+      snapshots.push(() => [{
+        name,
+        help,
+        type: 'histogram',
+        samples: [...values.all.values()].flatMap(({ labels, value }) => [
+          ...buckets.map((bound, index) => ({ name: `${name}_bucket`, labels: { ...labels, le: formatValue(bound) }, value: value.counts[index] })),
+          { name: `${name}_bucket`, labels: { ...labels, le: '+Inf' }, value: value.count },
+          { name: `${name}_sum`, labels, value: value.sum },
+          { name: `${name}_count`, labels, value: value.count }
+        ])
+      }]);
+      return {
+        observe(value, labels = {}) {
+          const entry = values.get(labels);
+          buckets.forEach((bound, index) => {
+            if (value <= bound) entry.counts[index]++;
+          });
+          entry.sum += value;
+          entry.count++;
+        }
+      };
+    },
+
+    collect(collector) {
+      snapshots.push(collector);
+    },
+
+    render() {
+      return snapshots
+        .flatMap(snapshot => snapshot())
+        .map(metric => [
+          `# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+          `# TYPE ${metric.name} ${metric.type}`,
+          ...metric.samples.map(sample => `${sample.name || metric.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`)
+        ].join('\n'))
+        .join('\n') + '\n';
+    }
+  };
+}
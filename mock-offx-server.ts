@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+import { realpathSync } from 'fs';
+import http from 'http';
+import { pathToFileURL } from 'url';
+import { cacheKey } from "./cache.js";
+import { BUNDLED_FIXTURES_DIR, createFixtureStore } from "./fixtures.js";
+
+export interface MockOffxServerOptions {
+  port: number;
+  /** Directory of recorded responses, as written by OFFX_MODE=record */
+  fixturesDir: string;
+}
+
+/**
+ * Starts an HTTP server that answers OFFX API requests from recorded
+ * fixtures, for running the MCP server offline or in CI. Point OFFX_BASE_URL
+ * at it. The token is ignored; requests without a fixture get a 404.
+ */
+export function startMockOffxServer(options: MockOffxServerOptions): Promise<http.Server> {
+  const fixtures = createFixtureStore(options.fixturesDir);
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method !== 'GET') {
+      res.writeHead(405, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Method not allowed' }));
+      return;
+    }
+    try {
+      const params = Object.fromEntries(url.searchParams);
+      const fixture = await fixtures.find(url.pathname, params);
+      if (!fixture) {
+        delete params.token;
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `No fixture for ${cacheKey(url.pathname, params)}` }));
+        return;
+      }
+      const text = typeof fixture.body === 'string';
+      res.writeHead(fixture.status, { 'Content-Type': text ? 'text/plain' : 'application/json' });
+      res.end(text ? fixture.body : JSON.stringify(fixture.body));
+    } catch (error) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
+  });
+  return new Promise(resolve => server.listen(options.port, () => resolve(server)));
+}
+
+// Run directly (node dist/mock-offx-server.js or the offx-mock-server bin)
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  const port = process.env.MOCK_OFFX_PORT ? parseInt(process.env.MOCK_OFFX_PORT) : 4010;
+  const fixturesDir = process.env.OFFX_FIXTURES_DIR || BUNDLED_FIXTURES_DIR;
+  startMockOffxServer({ port, fixturesDir }).then(() => {
+    console.error(`Mock OFFX API listening on http://localhost:${port} (fixtures: ${fixturesDir})`);
+  });
+}
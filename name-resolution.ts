@@ -0,0 +1,91 @@
+import { InvalidArgumentError } from "./schema-validation.js";
+
+/**
+ * An entity returned by an OFFX search that a name could refer to
+ */
+export interface NameCandidate {
+  id: string;
+  name: string;
+  other_names?: string[];
+}
+
+/**
+ * Resolves a `*_name` argument into the matching `*_id` argument
+ */
+export interface NameResolver {
+  /** Argument that receives the resolved ID, e.g. drug_id */
+  idField: string;
+  /** Entity label used in messages, e.g. drug */
+  entity: string;
+  search: (name: string) => Promise<NameCandidate[]>;
+}
+
+/**
+ * Raised when a name matches more than one entity. Carries the candidates so
+ * the caller can pick one and retry with the ID.
+ */
+export class AmbiguousNameError extends Error {
+  readonly field: string;
+  readonly value: string;
+  readonly candidates: NameCandidate[];
+
+  constructor(field: string, value: string, candidates: NameCandidate[]) {
+    super(`${field} "${value}" matches ${candidates.length} entities; retry with one of the listed IDs`);
+    this.name = 'AmbiguousNameError';
+    this.field = field;
+    this.value = value;
+    this.candidates = candidates;
+  }
+}
+
+// Upper bound on candidates listed in an ambiguity error
+const MAX_CANDIDATES = 20;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Picks the entity a name refers to: a single exact (case-insensitive) match
+ * on the main or other names wins, otherwise a single search result.
+ * Anything else is reported as not found or ambiguous.
+ */
+export function pickCandidate(field: string, value: string, candidates: NameCandidate[]): NameCandidate {
+  if (candidates.length === 0) {
+    throw new InvalidArgumentError(`No ${field.replace(/_name$/, '').replace(/_/g, ' ')} found matching "${value}"`, field);
+  }
+  const wanted = normalize(value);
+  const exactMain = candidates.filter(candidate => normalize(candidate.name) === wanted);
+  const exact = exactMain.length > 0
+    ? exactMain
+    : candidates.filter(candidate => (candidate.other_names || []).some(name => normalize(name) === wanted));
+  if (exact.length === 1) return exact[0];
+  if (exact.length === 0 && candidates.length === 1) return candidates[0];
+  const ambiguous = exact.length > 1 ? exact : candidates;
+  throw new AmbiguousNameError(field, value, ambiguous.slice(0, MAX_CANDIDATES));
+}
+
+/**
+ * Replaces every `*_name` argument that has a resolver with the matching ID.
+ * Returns the rewritten arguments and which entity each name resolved to.
+ */
+export async function resolveNameArgs<A extends Record<string, any>>(
+  args: A,
+  resolvers: Record<string, NameResolver>
+): Promise<{ args: A, resolved: Record<string, { id: string, name: string }> }> {
+  const resolvedArgs: Record<string, any> = { ...args };
+  const resolved: Record<string, { id: string, name: string }> = {};
+  for (const [field, resolver] of Object.entries(resolvers)) {
+    const value = args[field];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string') {
+      throw new InvalidArgumentError(`${field} must be a string`, field);
+    }
+    if (args[resolver.idField] !== undefined && args[resolver.idField] !== null && args[resolver.idField] !== '') {
+      throw new InvalidArgumentError(`Provide either ${resolver.idField} or ${field}, not both`, field);
+    }
+    const candidate = pickCandidate(field, value, await resolver.search(value));
+    resolvedArgs[resolver.idField] = candidate.id;
+    delete resolvedArgs[field];
+    resolved[resolver.entity] = { id: candidate.id, name: candidate.name };
+  }
+  return { args: resolvedArgs as A, resolved };
+}
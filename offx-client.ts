@@ -0,0 +1,301 @@
+import fetchModule from 'node-fetch';
+import { AsyncLocalStorage } from 'async_hooks';
+import { redactSecrets } from './util.js';
+import { cacheKey, CacheMode, categorizeEndpoint, ResponseCache } from './cache.js';
+import { FixtureStore } from './fixtures.js';
+import { Logger } from './logger.js';
+const fetch = (globalThis.fetch || (fetchModule as any).default || fetchModule) as typeof globalThis.fetch;
+
+/**
+ * Query parameter values accepted by the OFFX API. Empty values are dropped
+ * before the request is sent.
+ */
+export type OffxQueryValue = string | number | undefined | null;
+export type OffxQuery = Record<string, OffxQueryValue>;
+
+/**
+ * How the API token is sent: as the `token` query parameter (the documented
+ * OFFX scheme) or as an `Authorization: Bearer` header
+ */
+export type OffxAuthMode = 'query' | 'header';
+
+/**
+ * Where responses come from:
+ * - live: the OFFX API at baseUrl
+ * - record: the OFFX API, saving every final response to the fixture store
+ * - replay: the fixture store only, without any network request
+ */
+export type OffxMode = 'live' | 'record' | 'replay';
+
+export const OFFX_MODES: OffxMode[] = ['live', 'record', 'replay'];
+
+/**
+ * Configuration for the shared OFFX API client
+ */
+export interface OffxClientOptions {
+  baseUrl: string;
+  /** API token; may be empty for mock servers and replay mode */
+  token: string;
+  authMode: OffxAuthMode;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  cache?: ResponseCache;
+  mode?: OffxMode;
+  /** Recorded responses, required in record and replay mode */
+  fixtures?: FixtureStore;
+  /** Logs every OFFX request with its status, latency and the tool call it serves */
+  logger?: Logger;
+  /** Called once per OFFX request that succeeded or failed for good, e.g. for metrics */
+  onRequest?: (outcome: OffxRequestOutcome) => void;
+}
+
+/**
+ * Result of one OFFX request, retries included. `status` is undefined when no
+ * response was received.
+ */
+export interface OffxRequestOutcome {
+  endpoint: string;
+  status?: number;
+  latencyMs: number;
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * Per-call settings that apply to every OFFX request made while handling a
+ * single tool call
+ */
+export interface OffxRequestContext {
+  cacheMode?: CacheMode;
+  /** Identifies the tool call in logs */
+  requestId?: string;
+  tool?: string;
+  /** Authenticated HTTP client making the call, shown in logs */
+  client?: string;
+  /**
+   * OFFX token of the client, used instead of the configured token. Cached
+   * responses fetched with it are only served to the same client.
+   */
+  token?: string;
+  /** Called before every request sent to the OFFX API, retries included; throwing stops the request */
+  beforeRequest?: (endpoint: string) => void;
+}
+
+const requestContext = new AsyncLocalStorage<OffxRequestContext>();
+
+/**
+ * Runs `fn` with the given per-call settings applied to all OFFX requests it makes
+ */
+export function withRequestContext<T>(context: OffxRequestContext, fn: () => Promise<T>): Promise<T> {
+  return requestContext.run({ ...requestContext.getStore(), ...context }, fn);
+}
+
+/**
+ * The per-call settings of the tool call being handled, if any
+ */
+export function currentRequestContext(): OffxRequestContext {
+  return requestContext.getStore() || {};
+}
+
+/**
+ * Error raised for any failed OFFX request: non-2xx responses, timeouts and
+ * network failures. `status` is undefined when no response was received.
+ * The message is redacted so it is safe to return to clients and to log.
+ */
+export class OffxApiError extends Error {
+  readonly status?: number;
+  readonly endpoint: string;
+
+  constructor(message: string, endpoint: string, status?: number) {
+    super(redactSecrets(message));
+    this.name = 'OffxApiError';
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+}
+
+export interface OffxClient {
+  get<T = any>(endpoint: string, params?: OffxQuery): Promise<T>;
+}
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+function sleep(ms: number) {
+  return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * min(maxDelay, baseDelay * 2^attempt)
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Creates the OFFX API client used by every upstream call. Requests time out
+ * after `timeoutMs` and are retried with exponential backoff on 429, 5xx and
+ * network errors, honoring Retry-After when the API sends one (a Retry-After
+ * over `retryMaxDelayMs` fails the request instead). Successful
+ * responses are served from `cache` when one is configured. In record and
+ * replay mode responses are also saved to, or served from, `fixtures`.
+ * A tool call's request context may supply its own token.
+ */
+export function createOffxClient(options: OffxClientOptions): OffxClient {
+  const buildUrl = (endpoint: string, params: OffxQuery, token: string) => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        query.append(key, String(value));
+      }
+    });
+    if (options.authMode === 'query' && token) {
+      query.append('token', token);
+    }
+    return `${options.baseUrl}${endpoint}?${query.toString()}`;
+  };
+
+  // Sends one request and reads its body; the timeout covers both
+  const attemptRequest = async (endpoint: string, url: string, token: string) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+    try {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...(options.authMode === 'header' && token ? { 'Authorization': `Bearer ${token}` } : {})
+        },
+        signal: controller.signal
+      });
+      return { response, text: await response.text() };
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `Request timed out after ${options.timeoutMs}ms`
+        : `Request failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new OffxApiError(message, endpoint);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  // Logs and reports an OFFX request once it succeeded or failed for good; retries are counted in attempts
+  const reportRequest = (endpoint: string, started: number, status: number | undefined, attempts: number, error?: string) => {
+    const latencyMs = Date.now() - started;
+    options.onRequest?.({ endpoint, status, latencyMs, attempts, ...(error ? { error } : {}) });
+    const { requestId, tool, client } = currentRequestContext();
+    const meta = { request_id: requestId, tool, client, endpoint, status, latency_ms: latencyMs, attempts, mode: options.mode || 'live', ...(error ? { error } : {}) };
+    if (error) options.logger?.warn('OFFX request failed', meta);
+    else options.logger?.info('OFFX request', meta);
+  };
+
+  const replay = async <T>(endpoint: string, params: OffxQuery): Promise<T> => {
+    const started = Date.now();
+    const fixture = await options.fixtures?.find(endpoint, params);
+    if (!fixture) {
+      const error = new OffxApiError(`No recorded response for ${cacheKey(endpoint, params)}`, endpoint);
+      reportRequest(endpoint, started, undefined, 1, error.message);
+      throw error;
+    }
+    if (fixture.status < 200 || fixture.status >= 300) {
+      const errorText = typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body);
+      const error = new OffxApiError(`Request failed with status ${fixture.status}: ${errorText}`, endpoint, fixture.status);
+      reportRequest(endpoint, started, fixture.status, 1, error.message);
+      throw error;
+    }
+    reportRequest(endpoint, started, fixture.status, 1);
+    return fixture.body as T;
+  };
+
+  const request = async <T>(endpoint: string, params: OffxQuery): Promise<T> => {
+    if (options.mode === 'replay') {
+      return replay<T>(endpoint, params);
+    }
+    const record = options.mode === 'record' ? options.fixtures : undefined;
+    const { token = options.token, beforeRequest } = currentRequestContext();
+    const url = buildUrl(endpoint, params, token);
+    const started = Date.now();
+    for (let attempt = 0; ; attempt++) {
+      beforeRequest?.(endpoint);
+      let response: Response;
+      let text: string;
+      try {
+        ({ response, text } = await attemptRequest(endpoint, url, token));
+      } catch (error) {
+        if (attempt >= options.maxRetries) {
+          reportRequest(endpoint, started, undefined, attempt + 1, (error as Error).message);
+          throw error;
+        }
+        await sleep(backoffDelay(attempt, options.retryBaseDelayMs, options.retryMaxDelayMs));
+        continue;
+      }
+      if (response.ok) {
+        let body: T;
+        try {
+          body = JSON.parse(text) as T;
+        } catch (error) {
+          const invalid = new OffxApiError(`Invalid JSON in response: ${(error as Error).message}`, endpoint, response.status);
+          reportRequest(endpoint, started, response.status, attempt + 1, invalid.message);
+          throw invalid;
+        }
+        reportRequest(endpoint, started, response.status, attempt + 1);
+        await record?.save(endpoint, params, response.status, body);
+        return body;
+      }
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      // Waiting longer than retryMaxDelayMs would stall the tool call, so such a Retry-After ends the retries
+      const waitTooLong = retryAfter !== undefined && retryAfter > options.retryMaxDelayMs;
+      if (!RETRYABLE_STATUS.has(response.status) || attempt >= options.maxRetries || waitTooLong) {
+        const retryNote = waitTooLong ? ` (Retry-After ${Math.ceil(retryAfter / 1000)}s)` : '';
+        const error = new OffxApiError(`Request failed with status ${response.status}: ${text}${retryNote}`, endpoint, response.status);
+        reportRequest(endpoint, started, response.status, attempt + 1, error.message);
+        await record?.save(endpoint, params, response.status, redactSecrets(text));
+        throw error;
+      }
+      await sleep(retryAfter ?? backoffDelay(attempt, options.retryBaseDelayMs, options.retryMaxDelayMs));
+    }
+  };
+
+  return {
+    async get<T = any>(endpoint: string, params: OffxQuery = {}): Promise<T> {
+      const { cache } = options;
+      const { cacheMode = 'default', requestId, tool, client, token } = currentRequestContext();
+      const category = categorizeEndpoint(endpoint);
+      if (!cache || cacheMode === 'bypass' || cache.ttlFor(category) <= 0) {
+        return request<T>(endpoint, params);
+      }
+      // Responses fetched with a client's own token are cached for that client only
+      const key = token ? `${client}:${cacheKey(endpoint, params)}` : cacheKey(endpoint, params);
+      if (cacheMode === 'default') {
+        const cached = await cache.get(category, key);
+        if (cached !== undefined) {
+          options.logger?.debug('OFFX cache hit', { request_id: requestId, tool, client, endpoint, category });
+          return cached as T;
+        }
+      }
+      const result = await request<T>(endpoint, params);
+      await cache.set(category, key, result);
+      return result;
+    }
+  };
+}
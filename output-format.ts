@@ -0,0 +1,139 @@
+import { flattenArraysInObject } from "./util.js";
+import { JsonSchema } from "./schema-validation.js";
+import type { Continuation } from "./response-budget.js";
+
+/**
+ * Row-per-record formats for tools returning lists of records
+ */
+export type TabularFormat = 'csv' | 'tsv' | 'ndjson';
+
+/**
+ * Formats accepted by the format argument of tools returning lists of records
+ */
+export type OutputFormat = 'json' | TabularFormat;
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'csv', 'tsv', 'ndjson'];
+
+/**
+ * Formats a tool result can be rendered in; markdown is used by report tools
+ */
+export type RenderedFormat = TabularFormat | 'markdown';
+
+export const FORMAT_CONTENT_TYPES: Record<OutputFormat | RenderedFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  markdown: 'text/markdown; charset=utf-8'
+};
+
+const ACCEPT_TYPES: Record<string, TabularFormat> = {
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson'
+};
+
+/**
+ * A tool result already rendered as text in a non-JSON format
+ */
+export class FormattedOutput {
+  readonly format: RenderedFormat;
+  readonly body: string;
+  /** Set when the body is one slice of a response over the size budget */
+  readonly continuation?: Continuation;
+
+  constructor(format: RenderedFormat, body: string, continuation?: Continuation) {
+    this.format = format;
+    this.body = body;
+    this.continuation = continuation;
+  }
+
+  get contentType(): string {
+    return FORMAT_CONTENT_TYPES[this.format];
+  }
+}
+
+/**
+ * Maps an HTTP Accept header to a tabular output format, if it asks for one
+ */
+export function formatFromAccept(accept: string | undefined): TabularFormat | undefined {
+  if (!accept) return undefined;
+  return accept
+    .split(',')
+    .map(type => ACCEPT_TYPES[type.split(';')[0].trim().toLowerCase()])
+    .find(Boolean);
+}
+
+/**
+ * Column order for a response schema: the item properties of its first array
+ * property, in schema order
+ */
+export function schemaColumns(responseSchema: JsonSchema | undefined): string[] {
+  const list = Object.values(responseSchema?.properties || {}).find(property => property.type === 'array');
+  const items = list?.items as JsonSchema | undefined;
+  return Object.keys(items?.properties || {});
+}
+
+// The records of a result: the result itself when it is a list, otherwise its first list
+function extractRecords(result: unknown): unknown[] {
+  if (Array.isArray(result)) return result;
+  if (result && typeof result === 'object') {
+    const list = Object.values(result).find(Array.isArray);
+    if (list) return list;
+    return [result];
+  }
+  return result === undefined || result === null ? [] : [result];
+}
+
+// Flattens nested arrays with flattenArraysInObject and nested objects into dotted keys
+function flattenRecord(record: unknown, prefix = '', row: Record<string, unknown> = {}): Record<string, unknown> {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    row[prefix || 'value'] = Array.isArray(record) ? flattenArraysInObject(record) : record;
+    return row;
+  }
+  const flat = flattenArraysInObject(record);
+  Object.entries(flat).forEach(([key, value]) => {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object') {
+      flattenRecord(value, column, row);
+    } else {
+      row[column] = value;
+    }
+  });
+  return row;
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const tsvCell = (value: unknown) => (value === undefined || value === null ? '' : String(value)).replace(/[\t\r\n]+/g, ' ');
+
+/**
+ * Renders the records of a tool result as CSV, TSV or NDJSON. Columns follow
+ * `columns` (usually the response schema order) for the fields present in
+ * the data, followed by any other fields in alphabetical order; NDJSON keys
+ * use the same order. Nested arrays are flattened to comma separated strings,
+ * nested objects to dotted columns.
+ */
+export function formatRecords(result: unknown, format: TabularFormat, columns: string[] = []): FormattedOutput {
+  const rows = extractRecords(result).map(record => flattenRecord(record));
+  const present = new Set(rows.flatMap(row => Object.keys(row)));
+  const header = [
+    ...columns.filter(column => present.has(column)),
+    ...Array.from(present).filter(column => !columns.includes(column)).sort()
+  ];
+  if (format === 'ndjson') {
+    const ordered = rows.map(row => Object.fromEntries(header.filter(column => column in row).map(column => [column, row[column]])));
+    return new FormattedOutput(format, ordered.map(row => JSON.stringify(row) + '\n').join(''));
+  }
+  const cell = format === 'csv' ? csvCell : tsvCell;
+  const separator = format === 'csv' ? ',' : '\t';
+  // CSV uses CRLF line endings as in RFC 4180
+  const newline = format === 'csv' ? '\r\n' : '\n';
+  const lines = [header, ...rows.map(row => header.map(column => row[column]))]
+    .map(values => values.map(cell).join(separator));
+  return new FormattedOutput(format, header.length > 0 ? lines.join(newline) + newline : '');
+}
@@ -0,0 +1,94 @@
+/**
+ * Options controlling how many pages are walked for a paginated OFFX endpoint
+ */
+export interface PaginationOptions {
+  /** First page to fetch (default: 1) */
+  startPage: number;
+  /** Maximum number of pages to fetch */
+  maxPages: number;
+  /** Stop once this many items have been collected (optional) */
+  maxItems?: number;
+  /**
+   * Response field holding the paginated records, e.g. `alerts`. Only these
+   * are collected across pages; every other field keeps its page-1 value.
+   */
+  recordsField: string;
+}
+
+/**
+ * Metadata describing a multi-page fetch
+ */
+export interface PaginationInfo {
+  first_page: number;
+  last_page: number;
+  pages_fetched: number;
+  items: number;
+  /** True when the last page was reached */
+  complete: boolean;
+  /** True when a page or item limit stopped the walk before the last page */
+  truncated: boolean;
+}
+
+// The records of a page: the list held in `field`, or none
+function recordsOf(page: unknown, field: string): unknown[] {
+  const records = page && typeof page === 'object' ? (page as Record<string, unknown>)[field] : undefined;
+  return Array.isArray(records) ? records : [];
+}
+
+/**
+ * Walks pages starting at `startPage` until a page comes back without
+ * records (or repeats the records of the previous one), or a page/item limit
+ * is reached. Returns the first page with the records of every page in
+ * `recordsField`, and pagination metadata.
+ */
+export async function collectPages<T>(
+  fetchPage: (page: number) => Promise<T>,
+  options: PaginationOptions
+): Promise<{ result: T, pagination: PaginationInfo }> {
+  const { startPage, maxPages, maxItems, recordsField } = options;
+  let first: unknown;
+  const records: unknown[] = [];
+  let pagesFetched = 0;
+  let lastPage = startPage;
+  let complete = false;
+  let previous: string | undefined;
+
+  for (let page = startPage; pagesFetched < maxPages; page++) {
+    const data = await fetchPage(page);
+    pagesFetched++;
+    const pageRecords = recordsOf(data, recordsField);
+    const serialized = JSON.stringify(pageRecords);
+    // A page without records, or the API repeating the previous page, marks the end
+    if (pagesFetched > 1 && (pageRecords.length === 0 || serialized === previous)) {
+      complete = true;
+      break;
+    }
+    previous = serialized;
+    lastPage = page;
+    if (pagesFetched === 1) first = data;
+    if (maxItems !== undefined && records.length + pageRecords.length >= maxItems) {
+      records.push(...pageRecords.slice(0, maxItems - records.length));
+      break;
+    }
+    records.push(...pageRecords);
+    if (pageRecords.length === 0) {
+      complete = true;
+      break;
+    }
+  }
+
+  const result = first && typeof first === 'object' && !Array.isArray(first)
+    ? { ...(first as Record<string, unknown>), [recordsField]: records }
+    : first;
+  return {
+    result: result as T,
+    pagination: {
+      first_page: startPage,
+      last_page: lastPage,
+      pages_fetched: pagesFetched,
+      items: records.length,
+      complete,
+      truncated: !complete
+    }
+  };
+}
@@ -0,0 +1,130 @@
+import { InvalidArgumentError } from "./schema-validation.js";
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * A workflow advertised as an MCP prompt. `render` turns the arguments into
+ * instructions telling the model which tools to call, in which order and
+ * with which filters.
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render: (args: Record<string, string>) => string;
+}
+
+// Tool argument naming a drug: numeric values are OFFX IDs, anything else a name
+const drugArgument = (drug: string) => (/^\d+$/.test(drug.trim()) ? `"drug_id": "${drug.trim()}"` : `"drug_name": ${JSON.stringify(drug.trim())}`);
+
+const steps = (items: string[]) => items.map((item, index) => `${index + 1}. ${item}`).join('\n');
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'assess_drug_safety',
+    description: 'Assess the safety liabilities of a drug: targets, scores, serious and confirmed alerts',
+    arguments: [
+      { name: 'drug', description: 'Drug name or OFFX drug_id', required: true }
+    ],
+    render: ({ drug }) => `Assess the safety liabilities of the drug ${drug} using the OFFX tools, in this order:
+
+${steps([
+    `Call get_drug with { ${drugArgument(drug)}, "page": 1, "fields": ["drug", "resolved"] } to identify the drug. If the name is ambiguous, pick the candidate matching ${drug} and use its drug_id from here on.`,
+    'Call get_score with the drug_id for the overall drug score.',
+    'Call get_drug_target_liabilities with the drug_id to rank its primary and secondary targets by score and list their adverse events.',
+    'Call summarize_alerts with the drug_id and "facets": ["alert_severity", "alert_phase", "alert_level_evidence", "alert_onoff_target", "adverse_event"] for the overall alert profile.',
+    'Call get_alerts with the drug_id, "page": 1, "alert_severity": "yes", "alert_level_evidence": "1" (Confirmed/Reported) and "all_pages": true to review the serious confirmed alerts.'
+  ])}
+
+Then write the assessment:
+- Drug identity and overall score
+- The top target liabilities, separating on-target from off-target effects
+- The most frequent serious adverse events with their phases (clinical vs preclinical) and species
+- Gaps: liabilities with only suspected evidence, and whether any alert list was incomplete (pagination.complete: false)`
+  },
+  {
+    name: 'compare_target_class_effects',
+    description: 'Compare class effects across drugs acting on a target',
+    arguments: [
+      { name: 'target', description: 'Target name or OFFX target_id', required: true },
+      { name: 'action_id', description: 'OFFX action_id of the mechanism to compare (optional, e.g. 15)' }
+    ],
+    render: ({ target, action_id }) => `Compare the class effects of drugs acting on the target ${target} using the OFFX tools, in this order:
+
+${steps([
+    !/^\d+$/.test(target.trim())
+      ? `Call search_targets with { "target": ${JSON.stringify(target.trim())} } to find the target_id${action_id ? '' : ' and the action_id of the mechanism of interest (ask the user if several actions apply)'}.`
+      : action_id
+        ? `Call get_target with { "target_id": "${target.trim()}", "action_id": "${action_id}", "page": 1, "fields": ["target"] } to confirm the target.`
+        : `Use target_id ${target.trim()}. Ask the user for the action_id of the mechanism to compare if it is not clear from context.`,
+    `Call get_score with the target_id and action_id${action_id ? ` ${action_id}` : ''} for the class score.`,
+    'Call summarize_alerts with the target_id, action_id, "alert_type": "1" (Class Alert) and "facets": ["adverse_event", "alert_onoff_target", "alert_phase", "alert_severity"] to list the class effects.',
+    'Call get_drugs with the target_id and action_id to list the drugs sharing the mechanism.',
+    'Call compare_drugs with "drug_ids" set to up to 5 of those drugs, preferring the most advanced development phases, to see which adverse events are shared by all drugs and which are specific to one.'
+  ])}
+
+Then write the comparison:
+- Class effects: adverse events reported as class alerts and shared by the compared drugs
+- Drug-specific effects: adverse events unique to one drug, which may be off-target
+- Serious class effects and the phase in which they were first reported`
+  },
+  {
+    name: 'summarize_recent_serious_alerts',
+    description: 'Summarize serious alerts reported for a drug since a date',
+    arguments: [
+      { name: 'drug', description: 'Drug name or OFFX drug_id', required: true },
+      { name: 'since', description: 'Start date in yyyy-mm-dd format', required: true }
+    ],
+    render: ({ drug, since }) => {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(since.trim())) {
+        throw new InvalidArgumentError('since must be a date in yyyy-mm-dd format', 'since');
+      }
+      const filters = `${drugArgument(drug)}, "alert_severity": "yes", "alert_date_from": "${since.trim()}"`;
+      return `Summarize the serious alerts reported for the drug ${drug} since ${since.trim()} using the OFFX tools, in this order:
+
+${steps([
+    `Call summarize_alerts with { ${filters}, "facets": ["adverse_event", "alert_phase", "alert_species", "alert_level_evidence"] } for the counts.`,
+    `Call alert_timeline with { ${filters}, "interval": "month", "split_by": "adverse_event" } to see whether reports are increasing.`,
+    `Call get_alerts with { ${filters}, "page": 1, "all_pages": true, "order_by_date": "desc" } for the individual alerts and their references.`
+  ])}
+
+Then write the summary:
+- Number of serious alerts since ${since.trim()} and the trend per month
+- The adverse events with the most serious alerts, with phase, species and level of evidence
+- New signals: adverse events with no serious alerts before ${since.trim()}, if any
+- Key references for the most important alerts`;
+    }
+  },
+  {
+    name: 'review_watchlist',
+    description: 'Review new and changed alerts for the drugs and targets on a watchlist',
+    arguments: [
+      { name: 'watchlist', description: 'Watchlist name (optional, default: "default")' }
+    ],
+    render: ({ watchlist }) => `Review what is new for the watchlist "${watchlist || 'default'}" using the OFFX tools, in this order:
+
+${steps([
+    `Call get_new_alerts with { "watchlist": "${watchlist || 'default'}" }. Items with first_check: true only record a baseline.`,
+    'For each watched item with new or changed alerts, call get_score with its drug_id (or target_id and action_id) to put the alerts in context.',
+    'For serious new alerts ("alert_severity": "yes"), call get_alerts with the same drug_id or target_id and the alert\'s adverse_event_id to see its earlier history.'
+  ])}
+
+Then write a short report per watched item: new serious alerts first, then changed alerts, then the number of alerts no longer reported.`
+  }
+];
+
+/**
+ * Renders a prompt after checking its required arguments
+ */
+export function renderPrompt(prompt: PromptDefinition, args: Record<string, string> | undefined): string {
+  const values = args || {};
+  const missing = prompt.arguments.find(argument => argument.required && !values[argument.name]?.trim());
+  if (missing) {
+    throw new InvalidArgumentError(`${missing.name} is required`, missing.name);
+  }
+  return prompt.render(values);
+}
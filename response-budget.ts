@@ -0,0 +1,206 @@
+import { randomUUID } from 'crypto';
+import { FormattedOutput } from "./output-format.js";
+import { InvalidArgumentError } from "./schema-validation.js";
+
+export interface ResponseBudgetOptions {
+  /** Maximum response size in characters; 0 disables the limit */
+  maxChars: number;
+  /** How long the rest of a truncated response can be fetched with its cursor */
+  cursorTtlMs: number;
+  /** Maximum number of truncated responses kept at once; the oldest are dropped */
+  maxCursors: number;
+}
+
+/**
+ * Added to a truncated response: how to fetch the next slice
+ */
+export interface Continuation {
+  truncated: true;
+  cursor: string;
+  /** Records (or lines/characters for text) in this slice */
+  returned: number;
+  /** Records (or lines/characters for text) still to come */
+  remaining: number;
+  note: string;
+}
+
+export interface ResponseBudget {
+  /**
+   * Returns the result unchanged when it fits, otherwise its first slice with
+   * a continuation. The cursor is tied to `client` when one is given.
+   */
+  limit(tool: string, result: unknown, client?: string): unknown;
+  /** Returns the slice a cursor points to, without calling the tool again; only the client that got the cursor may resume it */
+  resume(tool: string, cursor: string, client?: string): unknown;
+}
+
+// The rest of a truncated response, split into the parts a slice is built from
+type StoredResponse = { tool: string, client?: string, expiresAt: number } & (
+  | { kind: 'records', base: unknown, path: string[], items: unknown[] }
+  | { kind: 'lines', format: FormattedOutput['format'], header: string[], lines: string[] }
+  | { kind: 'text', text: string });
+
+// Room left for the continuation added to a slice
+const CONTINUATION_RESERVE = 400;
+
+// CSV rows end in CRLF (see formatRecords), so bare newlines inside quoted cells are not split
+const lineSeparator = (format: FormattedOutput['format']) => (format === 'csv' ? '\r\n' : '\n');
+
+// Responses are measured as sent over MCP
+const measure = (value: unknown) => JSON.stringify(value, null, 2)?.length ?? 0;
+
+// Size of a list item `depth` levels deep in a response: every line is indented, and items are separated by ",\n"
+function measureItem(value: unknown, depth: number) {
+  const text = JSON.stringify(value, null, 2) ?? '';
+  return text.length + text.split('\n').length * depth * 2 + 2;
+}
+
+/**
+ * Finds the path to the list holding most of a response, e.g. ["alerts"]
+ */
+function largestListPath(value: unknown, path: string[] = []): { path: string[], size: number } | undefined {
+  if (Array.isArray(value)) {
+    return value.length > 1 ? { path, size: measure(value) } : undefined;
+  }
+  if (!value || typeof value !== 'object') return undefined;
+  return Object.entries(value)
+    .map(([key, child]) => largestListPath(child, [...path, key]))
+    .filter((found): found is { path: string[], size: number } => !!found)
+    .sort((a, b) => b.size - a.size)[0];
+}
+
+function withList(base: unknown, path: string[], items: unknown[]): unknown {
+  if (path.length === 0) return items;
+  const [key, ...rest] = path;
+  const parent = base as Record<string, unknown>;
+  return { ...parent, [key]: withList(parent[key], rest, items) };
+}
+
+/**
+ * Creates the per-process store for truncated responses. Slices are cut at
+ * record boundaries of the response's largest list so every slice is valid
+ * JSON; rendered text (CSV, Markdown, ...) is cut at line boundaries.
+ */
+export function createResponseBudget(options: ResponseBudgetOptions): ResponseBudget {
+  const stored = new Map<string, StoredResponse>();
+
+  const remember = (entry: StoredResponse) => {
+    const now = Date.now();
+    stored.forEach((value, id) => {
+      if (value.expiresAt <= now) stored.delete(id);
+    });
+    const id = randomUUID();
+    stored.set(id, entry);
+    while (stored.size > options.maxCursors) {
+      stored.delete(stored.keys().next().value as string);
+    }
+    return id;
+  };
+
+  const cursorFor = (id: string, offset: number) => Buffer.from(`${id}:${offset}`).toString('base64url');
+
+  const continuation = (tool: string, id: string, offset: number, returned: number, remaining: number): Continuation => {
+    const cursor = cursorFor(id, offset);
+    return {
+      truncated: true,
+      cursor,
+      returned,
+      remaining,
+      note: `Response exceeded ${options.maxChars} characters and was truncated. Call ${tool} with {"cursor": "${cursor}"} for the next slice.`
+    };
+  };
+
+  // Takes as many items from offset as fit, always at least one
+  const takeItems = (items: unknown[], depth: number, offset: number, budget: number) => {
+    let size = 0;
+    let end = offset;
+    while (end < items.length) {
+      const itemSize = measureItem(items[end], depth);
+      if (end > offset && size + itemSize > budget) break;
+      size += itemSize;
+      end++;
+    }
+    return end;
+  };
+
+  const recordsSlice = (id: string, entry: Extract<StoredResponse, { kind: 'records' }>, offset: number) => {
+    const budget = options.maxChars - measure(withList(entry.base, entry.path, [])) - CONTINUATION_RESERVE;
+    // A top-level list is sent as `items` next to the continuation, so its records are nested one level too
+    const end = takeItems(entry.items, Math.max(entry.path.length, 1) + 1, offset, budget);
+    const slice = withList(entry.base, entry.path, entry.items.slice(offset, end));
+    if (end >= entry.items.length) return slice;
+    const next = continuation(entry.tool, id, end, end - offset, entry.items.length - end);
+    return Array.isArray(slice) ? { items: slice, continuation: next } : { ...(slice as Record<string, unknown>), continuation: next };
+  };
+
+  const linesSlice = (id: string, entry: Extract<StoredResponse, { kind: 'lines' }>, offset: number) => {
+    const newline = lineSeparator(entry.format);
+    const budget = options.maxChars - entry.header.join(newline).length - CONTINUATION_RESERVE;
+    let size = 0;
+    let end = offset;
+    while (end < entry.lines.length && (end === offset || size + entry.lines[end].length + newline.length <= budget)) {
+      size += entry.lines[end].length + newline.length;
+      end++;
+    }
+    const body = [...entry.header, ...entry.lines.slice(offset, end)].join(newline) + newline;
+    const next = end < entry.lines.length
+      ? continuation(entry.tool, id, end, end - offset, entry.lines.length - end)
+      : undefined;
+    return new FormattedOutput(entry.format, body, next);
+  };
+
+  const textSlice = (id: string, entry: Extract<StoredResponse, { kind: 'text' }>, offset: number) => {
+    const end = Math.min(entry.text.length, offset + Math.max(1, options.maxChars - CONTINUATION_RESERVE));
+    const slice: Record<string, unknown> = { text_slice: entry.text.slice(offset, end) };
+    if (end < entry.text.length) {
+      slice.continuation = continuation(entry.tool, id, end, end - offset, entry.text.length - end);
+    }
+    return slice;
+  };
+
+  const sliceAt = (id: string, entry: StoredResponse, offset: number) => {
+    if (entry.kind === 'records') return recordsSlice(id, entry, offset);
+    if (entry.kind === 'lines') return linesSlice(id, entry, offset);
+    return textSlice(id, entry, offset);
+  };
+
+  return {
+    limit(tool, result, client) {
+      if (options.maxChars <= 0) return result;
+      const expiresAt = Date.now() + options.cursorTtlMs;
+      let entry: StoredResponse;
+      if (result instanceof FormattedOutput) {
+        if (result.body.length <= options.maxChars) return result;
+        const newline = lineSeparator(result.format);
+        const lines = (result.body.endsWith(newline) ? result.body.slice(0, -newline.length) : result.body).split(newline);
+        const headerLines = result.format === 'csv' || result.format === 'tsv' ? 1 : 0;
+        entry = { kind: 'lines', tool, client, expiresAt, format: result.format, header: lines.slice(0, headerLines), lines: lines.slice(headerLines) };
+      } else {
+        if (measure(result) <= options.maxChars) return result;
+        const list = largestListPath(result);
+        if (list) {
+          const items = list.path.reduce((value: any, key) => value[key], result) as unknown[];
+          entry = { kind: 'records', tool, client, expiresAt, base: withList(result, list.path, []), path: list.path, items };
+        } else {
+          entry = { kind: 'text', tool, client, expiresAt, text: JSON.stringify(result, null, 2) };
+        }
+      }
+      const id = remember(entry);
+      return sliceAt(id, entry, 0);
+    },
+
+    resume(tool, cursor, client) {
+      const [id, offsetText] = Buffer.from(cursor, 'base64url').toString('utf8').split(':');
+      const entry = stored.get(id);
+      const offset = parseInt(offsetText);
+      // Another client's cursor is reported as unknown, so cursors cannot be probed
+      if (!entry || entry.client !== client || entry.expiresAt <= Date.now() || !Number.isInteger(offset) || offset < 0) {
+        throw new InvalidArgumentError('cursor is unknown or has expired; repeat the original call', 'cursor');
+      }
+      if (entry.tool !== tool) {
+        throw new InvalidArgumentError(`cursor belongs to ${entry.tool}, not ${tool}`, 'cursor');
+      }
+      return sliceAt(id, entry, offset);
+    }
+  };
+}
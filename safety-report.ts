@@ -0,0 +1,201 @@
+import { labelForCodes } from "./alert-codes.js";
+
+/**
+ * Data gathered from OFFX for a drug safety dossier
+ */
+export interface DrugSafetyReportData {
+  drugId: string;
+  /** The `drug` object of the drug masterview */
+  drug: Record<string, any>;
+  /** Overall drug score, null when OFFX returns none */
+  score: number | null;
+  primaryTargets: any[];
+  secondaryTargets: any[];
+  alerts: any[];
+  /** False when not every alert page was fetched */
+  alertsComplete: boolean;
+  /** Drug scores keyed by adverse_event_id, for the top adverse events */
+  adverseEventScores: Record<string, number | null>;
+  topAdverseEvents: number;
+  /** References listed per source type */
+  maxReferences: number;
+  generatedAt: Date;
+}
+
+interface AdverseEventTally {
+  adverse_event_id: string;
+  adverse_event: string;
+  alerts: number;
+  serious: number;
+}
+
+// Masterview drug fields shown in the identity section, in order
+const IDENTITY_FIELDS: [string, string][] = [
+  ['drug_main_name', 'Name'],
+  ['drug_id', 'OFFX drug ID'],
+  ['drug_other_names', 'Other names'],
+  ['drug_phase', 'Development phase'],
+  ['drug_molecule_type', 'Molecule type'],
+  ['drug_modalities', 'Modalities'],
+  ['chembl_id', 'ChEMBL ID']
+];
+
+// Alert fields that may carry the reference title and link
+const REFERENCE_TITLE_FIELDS = ['ref_title', 'reference', 'ref_name'];
+const REFERENCE_LINK_FIELDS = ['ref_url', 'ref_link', 'url'];
+
+const isSerious = (alert: any) => String(alert?.alert_severity ?? '').toLowerCase() === 'yes';
+
+const present = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+// Escapes a value for a Markdown table cell
+const cell = (value: unknown) => {
+  if (!present(value)) return '–';
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+};
+
+const formatScore = (score: number | null | undefined) => (score === null || score === undefined ? '–' : String(Math.round(score * 1000) / 1000));
+
+function table(header: string[], rows: unknown[][]): string {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Counts alerts (and serious alerts) per adverse event, most alerts first
+ */
+export function rankAdverseEvents(alerts: any[]): AdverseEventTally[] {
+  const tallies = new Map<string, AdverseEventTally>();
+  alerts.forEach(alert => {
+    if (!present(alert?.adverse_event_id)) return;
+    const id = String(alert.adverse_event_id);
+    let tally = tallies.get(id);
+    if (!tally) {
+      tally = { adverse_event_id: id, adverse_event: present(alert.adverse_event) ? String(alert.adverse_event) : id, alerts: 0, serious: 0 };
+      tallies.set(id, tally);
+    }
+    tally.alerts++;
+    if (isSerious(alert)) tally.serious++;
+  });
+  return Array.from(tallies.values())
+    .sort((a, b) => b.alerts - a.alerts || b.serious - a.serious || a.adverse_event.localeCompare(b.adverse_event));
+}
+
+function identitySection(data: DrugSafetyReportData): string {
+  const rows = IDENTITY_FIELDS
+    .filter(([field]) => present(data.drug[field]) && !(Array.isArray(data.drug[field]) && data.drug[field].length === 0))
+    .map(([field, label]) => [label, data.drug[field]]);
+  if (!rows.some(([label]) => label === 'OFFX drug ID')) rows.splice(1, 0, ['OFFX drug ID', data.drugId]);
+  rows.push(['Overall drug score', formatScore(data.score)]);
+  return `## Drug Identity\n\n${table(['Field', 'Value'], rows)}`;
+}
+
+function targetTable(targets: any[]): string {
+  if (targets.length === 0) return '_None reported._';
+  return table(
+    ['Target', 'Target ID', 'Action'],
+    targets.map(target => [target.target, target.target_id, target.action ?? target.action_id])
+  );
+}
+
+function targetsSection(data: DrugSafetyReportData): string {
+  return [
+    '## Targets',
+    '### Primary Targets',
+    targetTable(data.primaryTargets),
+    '### Secondary Targets',
+    targetTable(data.secondaryTargets)
+  ].join('\n\n');
+}
+
+function adverseEventsSection(data: DrugSafetyReportData): string {
+  const ranked = rankAdverseEvents(data.alerts).slice(0, data.topAdverseEvents);
+  if (ranked.length === 0) return '## Top Adverse Events\n\n_No alerts reported._';
+  return `## Top Adverse Events\n\n${table(
+    ['#', 'Adverse event', 'Adverse event ID', 'Alerts', 'Serious alerts', 'Score'],
+    ranked.map((event, index) => [
+      index + 1,
+      event.adverse_event,
+      event.adverse_event_id,
+      event.alerts,
+      event.serious,
+      formatScore(data.adverseEventScores[event.adverse_event_id])
+    ])
+  )}`;
+}
+
+function seriousAlertsSection(data: DrugSafetyReportData): string {
+  const serious = data.alerts.filter(isSerious);
+  if (serious.length === 0) return '## Serious Alerts by Phase and Species\n\n_No serious alerts reported._';
+  const phaseOf = (alert: any) => present(alert.alert_phase)
+    ? labelForCodes('alert_phase', alert.alert_phase) ?? String(alert.alert_phase)
+    : 'Unknown';
+  const speciesOf = (alert: any) => present(alert.alert_species) ? String(alert.alert_species) : 'Unknown';
+  const species = Array.from(new Set(serious.map(speciesOf))).sort();
+  const counts = new Map<string, Record<string, number>>();
+  serious.forEach(alert => {
+    const row = counts.get(phaseOf(alert)) || {};
+    row[speciesOf(alert)] = (row[speciesOf(alert)] || 0) + 1;
+    counts.set(phaseOf(alert), row);
+  });
+  const rows = Array.from(counts.entries())
+    .map(([phase, row]) => ({ phase, row, total: Object.values(row).reduce((sum, count) => sum + count, 0) }))
+    .sort((a, b) => b.total - a.total || a.phase.localeCompare(b.phase))
+    .map(({ phase, row, total }) => [phase, ...species.map(name => row[name] || 0), total]);
+  return `## Serious Alerts by Phase and Species\n\n${serious.length} serious alerts.\n\n${table(['Phase', ...species, 'Total'], rows)}`;
+}
+
+function referencesSection(data: DrugSafetyReportData): string {
+  const groups = new Map<string, { alerts: number, references: Set<string> }>();
+  data.alerts.forEach(alert => {
+    const source = present(alert?.ref_source_type)
+      ? labelForCodes('ref_source_type', alert.ref_source_type) ?? String(alert.ref_source_type)
+      : 'Unspecified source';
+    const group = groups.get(source) || { alerts: 0, references: new Set<string>() };
+    group.alerts++;
+    const title = REFERENCE_TITLE_FIELDS.map(field => alert[field]).find(present);
+    const link = REFERENCE_LINK_FIELDS.map(field => alert[field]).find(present);
+    if (title && link) group.references.add(`[${String(title).replace(/[[\]]/g, '')}](${link})`);
+    else if (title || link) group.references.add(String(title ?? link));
+    groups.set(source, group);
+  });
+  if (groups.size === 0) return '## References by Source Type\n\n_No references reported._';
+  const sections = Array.from(groups.entries())
+    .sort((a, b) => b[1].alerts - a[1].alerts || a[0].localeCompare(b[0]))
+    .map(([source, group]) => {
+      const references = Array.from(group.references);
+      const listed = references.slice(0, data.maxReferences).map(reference => `- ${reference}`);
+      if (references.length > data.maxReferences) listed.push(`- _and ${references.length - data.maxReferences} more_`);
+      const heading = `### ${source} (${group.alerts} alert${group.alerts === 1 ? '' : 's'})`;
+      return listed.length > 0 ? `${heading}\n\n${listed.join('\n')}` : heading;
+    });
+  return `## References by Source Type\n\n${sections.join('\n\n')}`;
+}
+
+/**
+ * Renders a Markdown safety dossier for a drug: identity, primary and
+ * secondary targets, top adverse events with scores, serious alerts by phase
+ * and species, and references grouped by source type
+ */
+export function renderDrugSafetyReport(data: DrugSafetyReportData): string {
+  const name = present(data.drug.drug_main_name) ? String(data.drug.drug_main_name) : `Drug ${data.drugId}`;
+  const header = [
+    `# Drug Safety Report: ${name}`,
+    `_Generated ${data.generatedAt.toISOString().slice(0, 10)} from OFFX data for drug ID ${data.drugId}; ${data.alerts.length} alerts analyzed._`
+  ];
+  if (!data.alertsComplete) {
+    header.push('> **Note:** not every alert page was fetched, so alert counts are incomplete.');
+  }
+  return [
+    header.join('\n\n'),
+    identitySection(data),
+    targetsSection(data),
+    adverseEventsSection(data),
+    seriousAlertsSection(data),
+    referencesSection(data)
+  ].join('\n\n') + '\n';
+}
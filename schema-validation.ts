@@ -0,0 +1,186 @@
+/**
+ * The subset of JSON Schema used by the tool input schemas
+ */
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: readonly string[];
+  format?: string;
+  default?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  [key: string]: unknown;
+}
+
+/**
+ * Raised when tool arguments do not match the tool's input schema.
+ * `field` names the offending argument when a single one is at fault.
+ */
+export class InvalidArgumentError extends Error {
+  readonly field?: string;
+
+  constructor(message: string, field?: string) {
+    super(message);
+    this.name = 'InvalidArgumentError';
+    this.field = field;
+  }
+}
+
+const isPresent = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+// Enum properties documented as comma separated accept several codes, e.g. "1,2,3"
+const isCommaSeparated = (schema: JsonSchema) => typeof schema.format === 'string' && /comma separated/i.test(schema.format);
+
+// Enum properties with enumDescriptions also accept the descriptions as labels
+// (case-insensitive), e.g. "Phase II" for "7"; labels are replaced by their codes
+function labelsToCodes(schema: JsonSchema, value: string): string {
+  const descriptions = schema.enumDescriptions as Record<string, string> | undefined;
+  if (!descriptions) return value;
+  const codeFor = (label: string) => {
+    const wanted = label.trim().toLowerCase();
+    return Object.keys(descriptions).find(code => descriptions[code].toLowerCase() === wanted);
+  };
+  const whole = codeFor(value);
+  if (whole !== undefined) return whole;
+  if (!isCommaSeparated(schema)) return value;
+  return value.split(',').map(part => codeFor(part) ?? part.trim()).join(',');
+}
+
+function validateProperty(field: string, schema: JsonSchema, value: unknown): unknown {
+  let coerced = value;
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        coerced = String(value);
+      } else if (typeof value !== 'string') {
+        throw new InvalidArgumentError(`${field} must be a string`, field);
+      }
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new InvalidArgumentError(`${field} must be a number`, field);
+      }
+      break;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        throw new InvalidArgumentError(`${field} must be an integer`, field);
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new InvalidArgumentError(`${field} must be a boolean`, field);
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        throw new InvalidArgumentError(`${field} must be an array`, field);
+      }
+      if (schema.items && typeof schema.items === 'object') {
+        coerced = value.map((item, index) => validateProperty(`${field}[${index}]`, schema.items as JsonSchema, item));
+      }
+      break;
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new InvalidArgumentError(`${field} must be an object`, field);
+      }
+      break;
+  }
+  if (schema.enum && typeof coerced === 'string') {
+    const codes = labelsToCodes(schema, coerced);
+    const allowed = schema.enum;
+    const parts = isCommaSeparated(schema) ? codes.split(',').map(part => part.trim()) : [codes];
+    if (!allowed.includes(codes) && !parts.every(part => allowed.includes(part))) {
+      const labels = schema.enumDescriptions ? ' (or their labels)' : '';
+      throw new InvalidArgumentError(`${field} must be one of: ${allowed.join(', ')}${labels}`, field);
+    }
+    coerced = codes;
+  }
+  return coerced;
+}
+
+function satisfies(schema: JsonSchema, args: Record<string, unknown>): boolean {
+  if (schema.required && !schema.required.every(field => isPresent(args[field]))) return false;
+  if (schema.not && satisfies(schema.not, args)) return false;
+  if (schema.anyOf && !schema.anyOf.some(option => satisfies(option, args))) return false;
+  if (schema.oneOf && schema.oneOf.filter(option => satisfies(option, args)).length !== 1) return false;
+  return true;
+}
+
+// Lists the arguments an anyOf/oneOf option needs, leaving out those with defaults
+const describeOption = (option: JsonSchema, properties: Record<string, JsonSchema>) =>
+  (option.required || []).filter(field => properties[field]?.default === undefined).join(' + ');
+
+/**
+ * Validates tool arguments against an input schema: property types and enums,
+ * required properties and anyOf/oneOf/not combinations. Numbers given for
+ * string properties are converted, enum labels are mapped to their codes and
+ * schema defaults are filled in.
+ * Returns the normalized arguments.
+ */
+export function validateArguments(schema: JsonSchema, args: unknown): Record<string, unknown> {
+  if (args === undefined || args === null) {
+    args = {};
+  }
+  if (typeof args !== 'object' || Array.isArray(args)) {
+    throw new InvalidArgumentError('Arguments must be an object');
+  }
+  const properties = schema.properties || {};
+  const normalized: Record<string, unknown> = { ...(args as Record<string, unknown>) };
+  Object.entries(properties).forEach(([field, property]) => {
+    if (isPresent(normalized[field])) {
+      normalized[field] = validateProperty(field, property, normalized[field]);
+    } else if (property.default !== undefined) {
+      normalized[field] = property.default;
+    }
+  });
+  const missing = (schema.required || []).find(field => !isPresent(normalized[field]));
+  if (missing) {
+    throw new InvalidArgumentError(`${missing} is required`, missing);
+  }
+  if (schema.anyOf && !schema.anyOf.some(option => satisfies(option, normalized))) {
+    throw new InvalidArgumentError(`Missing required arguments: provide one of ${schema.anyOf.map(option => describeOption(option, properties)).join(', or ')}`);
+  }
+  if (schema.oneOf && schema.oneOf.filter(option => satisfies(option, normalized)).length !== 1) {
+    throw new InvalidArgumentError(`Invalid combination of arguments: provide exactly one of ${schema.oneOf.map(option => describeOption(option, properties)).join(', or ')}`);
+  }
+  return normalized;
+}
+
+/**
+ * Checks an OFFX ID parameter: a number or a comma-separated list of numbers.
+ * Empty values are accepted.
+ */
+export function validateCommaSeparatedNumbers(param: any, fieldName: string) {
+  if (param === undefined || param === null || param === '') return;
+  if (typeof param === 'number') return;
+  if (typeof param === 'string') {
+    if (!/^\d+(,\d+)*$/.test(param)) {
+      throw new InvalidArgumentError(`${fieldName} must be a number or a comma-separated list of numbers (e.g., 1,2,3)`, fieldName);
+    }
+    return;
+  }
+  throw new InvalidArgumentError(`${fieldName} must be a number or a comma-separated list of numbers (e.g., 1,2,3)`, fieldName);
+}
+
+/**
+ * Checks that a parameter, when given, is one of the allowed strings
+ */
+export function validateStringEnum(param: any, fieldName: string, allowed: string[]) {
+  if (param === undefined || param === null || param === '') return;
+  if (typeof param !== 'string' || !allowed.includes(param)) {
+    throw new InvalidArgumentError(`${fieldName} must be one of: ${allowed.join(', ')}`, fieldName);
+  }
+}
+
+/**
+ * Checks that a parameter, when given, is a number
+ */
+export function validateNumber(param: any, fieldName: string) {
+  if (param === undefined || param === null) return;
+  if (typeof param !== 'number') {
+    throw new InvalidArgumentError(`${fieldName} must be a number`, fieldName);
+  }
+}
@@ -0,0 +1,53 @@
+import { AdverseEventRef } from "./drug-comparison.js";
+
+export type TargetRelation = 'primary' | 'secondary';
+
+/**
+ * A target/action pair of a drug together with its safety data
+ */
+export interface TargetLiability {
+  target_id: string;
+  target: string;
+  /** null when OFFX does not report an action for the target, so no score can be looked up */
+  action_id: string | null;
+  relation: TargetRelation;
+  /** Target/class score for the action, null when OFFX returns none */
+  score: number | null;
+  adverse_event_count: number;
+  adverse_events: AdverseEventRef[];
+}
+
+export interface RankedTargetLiability extends TargetLiability {
+  rank: number;
+}
+
+/**
+ * Keeps one entry per target/action pair, preferring the primary relation when
+ * a pair is listed as both primary and secondary
+ */
+export function dedupeTargetPairs<T extends { target_id: string, action_id: string | null, relation: TargetRelation }>(pairs: T[]): T[] {
+  const byPair = new Map<string, T>();
+  pairs.forEach(pair => {
+    const key = `${pair.target_id}:${pair.action_id ?? ''}`;
+    const existing = byPair.get(key);
+    if (!existing || (existing.relation === 'secondary' && pair.relation === 'primary')) {
+      byPair.set(key, pair);
+    }
+  });
+  return Array.from(byPair.values());
+}
+
+/**
+ * Ranks liabilities by score (missing scores last), then by the number of
+ * associated adverse events, with primary targets ahead of secondary ones on ties
+ */
+export function rankTargetLiabilities(liabilities: TargetLiability[]): RankedTargetLiability[] {
+  return [...liabilities]
+    .sort((a, b) =>
+      (b.score ?? -Infinity) - (a.score ?? -Infinity) ||
+      b.adverse_event_count - a.adverse_event_count ||
+      Number(a.relation === 'secondary') - Number(b.relation === 'secondary') ||
+      String(a.target ?? a.target_id ?? '').localeCompare(String(b.target ?? b.target_id ?? ''))
+    )
+    .map((liability, index) => ({ rank: index + 1, ...liability }));
+}
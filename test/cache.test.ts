@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createResponseCache, ResponseCacheOptions } from "../cache.js";
+import { Logger } from "../logger.js";
+
+const TTL = { search: 60_000, masterview: 60_000, alerts: 60_000, score: 60_000 };
+
+describe('response cache on disk', () => {
+  let dir: string;
+  const warnings: string[] = [];
+  const logger: Logger = { error: () => undefined, warn: message => warnings.push(message), info: () => undefined, debug: () => undefined };
+
+  const cache = (options: Partial<ResponseCacheOptions> = {}) => createResponseCache({ maxEntries: 10, ttlMs: TTL, diskDir: dir, logger, ...options });
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'offx-cache-'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('serves entries written by another instance', async () => {
+    await cache().set('score', 'a', { score: 1 });
+    const reopened = cache();
+    assert.deepEqual(await reopened.get('score', 'a'), { score: 1 });
+    assert.equal(reopened.stats().diskHits, 1);
+  });
+
+  it('deletes expired files when they are looked up', async () => {
+    await cache({ ttlMs: { ...TTL, alerts: 1 } }).set('alerts', 'b', { alerts: [] });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const before = (await fs.readdir(dir)).length;
+    assert.equal(await cache().get('alerts', 'b'), undefined);
+    assert.equal((await fs.readdir(dir)).length, before - 1);
+  });
+
+  it('keeps the entry in memory and logs a warning when the disk write fails', async () => {
+    const blocked = path.join(dir, 'not-a-directory');
+    await fs.writeFile(blocked, '');
+    const failing = cache({ diskDir: blocked });
+    await failing.set('score', 'c', { score: 2 });
+    assert.deepEqual(await failing.get('score', 'c'), { score: 2 });
+    assert.deepEqual(warnings, ['Cannot write cache entry']);
+  });
+
+  it('clears only the entries whose key starts with a prefix, in memory and on disk', async () => {
+    const prefixed = cache({ diskDir: path.join(dir, 'prefix') });
+    await prefixed.set('score', 'oncology:/api/score?drug_id=1', { score: 1 });
+    await prefixed.set('score', '/api/score?drug_id=1', { score: 2 });
+    assert.equal(await prefixed.clear(undefined, 'oncology:'), 1);
+    assert.equal(await prefixed.get('score', 'oncology:/api/score?drug_id=1'), undefined);
+    assert.deepEqual(await prefixed.get('score', '/api/score?drug_id=1'), { score: 2 });
+    const reopened = cache({ diskDir: path.join(dir, 'prefix') });
+    assert.equal(await reopened.get('score', 'oncology:/api/score?drug_id=1'), undefined);
+    assert.deepEqual(await reopened.get('score', '/api/score?drug_id=1'), { score: 2 });
+  });
+});
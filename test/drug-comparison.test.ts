@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compareDrugProfiles, DrugSafetyProfile } from "../drug-comparison.js";
+
+const profile = (drugId: string, adverseEvents: DrugSafetyProfile['adverseEvents']): DrugSafetyProfile =>
+  ({ drug_id: drugId, score: null, adverseEvents, alertCounts: {}, alertsComplete: true });
+
+describe('compareDrugProfiles', () => {
+  it('orders rows without an adverse event name by their ID', () => {
+    // OFFX may leave out the name of an adverse event
+    const unnamed = { adverse_event_id: '10000002' } as DrugSafetyProfile['adverseEvents'][number];
+    const comparison = compareDrugProfiles([
+      profile('1', [unnamed, { adverse_event_id: '10000001', adverse_event: 'Nausea' }]),
+      profile('2', [])
+    ], 10);
+    assert.deepEqual(comparison.table.map(row => row.adverse_event_id), ['10000002', '10000001']);
+  });
+});
@@ -0,0 +1,196 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { BUNDLED_FIXTURES_DIR } from "../fixtures.js";
+import { startMockOffxServer } from "../mock-offx-server.js";
+
+// Compiled entry point of the server under test
+export const SERVER_ENTRY = fileURLToPath(new URL('../index.js', import.meta.url));
+
+// Error and edge-case responses used only by the tests (read from the sources, next to dist-test)
+const TEST_FIXTURES_DIR = fileURLToPath(new URL('../../test/fixtures', import.meta.url));
+
+/**
+ * Token the server under test is started with. test/fixtures echo it back in
+ * an error body so the tests can check it is redacted.
+ */
+export const TEST_TOKEN = 'test-offx-token-0123456789';
+
+/**
+ * A local OFFX API answering from the bundled fixtures plus test/fixtures
+ */
+export interface OffxStandIn {
+  baseUrl: string;
+  /** Scratch directory for files the server under test writes (watchlists) */
+  dir: string;
+  close(): Promise<void>;
+}
+
+export async function startOffxStandIn(): Promise<OffxStandIn> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'offx-test-'));
+  const fixturesDir = path.join(dir, 'fixtures');
+  await fs.mkdir(fixturesDir);
+  for (const source of [BUNDLED_FIXTURES_DIR, TEST_FIXTURES_DIR]) {
+    for (const file of await fs.readdir(source)) {
+      if (file.endsWith('.json')) await fs.copyFile(path.join(source, file), path.join(fixturesDir, file));
+    }
+  }
+  const server = await startMockOffxServer({ port: 0, fixturesDir });
+  return {
+    baseUrl: `http://localhost:${(server.address() as net.AddressInfo).port}`,
+    dir,
+    async close() {
+      await new Promise(resolve => server.close(resolve));
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+/**
+ * Environment for the server under test: only the variables set here, so a
+ * developer's OFFX_* settings cannot leak into the tests
+ */
+export function serverEnv(standIn: OffxStandIn, overrides: Record<string, string> = {}): Record<string, string> {
+  return {
+    PATH: process.env.PATH || '',
+    OFFX_BASE_URL: standIn.baseUrl,
+    OFFX_API_TOKEN: TEST_TOKEN,
+    OFFX_MAX_RETRIES: '0',
+    OFFX_WATCHLIST_FILE: path.join(standIn.dir, `watchlists-${Math.random().toString(36).slice(2)}.json`),
+    LOG_LEVEL: 'error',
+    ...overrides
+  };
+}
+
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+export interface HttpServer {
+  url: string;
+  /** Everything the server wrote to stderr so far */
+  stderr(): string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Starts the server under test in HTTP mode and waits until /health answers
+ */
+export function startHttpServer(env: Record<string, string>): Promise<HttpServer> {
+  return startNetworkServer({ ...env, USE_HTTP: 'true' });
+}
+
+/**
+ * Starts the server under test with the network MCP transport (TRANSPORT=sse)
+ * and waits until /health answers
+ */
+export function startSseServer(env: Record<string, string>): Promise<HttpServer> {
+  return startNetworkServer({ ...env, TRANSPORT: 'sse' });
+}
+
+async function startNetworkServer(env: Record<string, string>): Promise<HttpServer> {
+  const port = await freePort();
+  const child = spawn(process.execPath, [SERVER_ENTRY], {
+    cwd: os.tmpdir(),
+    env: { ...env, PORT: String(port) },
+    stdio: ['ignore', 'ignore', 'pipe']
+  });
+  let stderr = '';
+  child.stderr?.on('data', chunk => { stderr += chunk; });
+  const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+  const url = `http://localhost:${port}`;
+  const stop = async () => {
+    if (child.exitCode === null && child.signalCode === null) child.kill();
+    await exited;
+  };
+  const deadline = Date.now() + 10_000;
+  for (;;) {
+    if (child.exitCode !== null) {
+      throw new Error(`Server exited with code ${child.exitCode}: ${stderr}`);
+    }
+    try {
+      if ((await fetch(`${url}/health`)).ok) return { url, stderr: () => stderr, stop };
+    } catch {
+      // Not listening yet
+    }
+    if (Date.now() > deadline) {
+      await stop();
+      throw new Error(`Server did not start on port ${port}: ${stderr}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+/**
+ * Connects an MCP client to the server under test started in stdio mode.
+ * Closing the client stops the server.
+ */
+export async function startMcpClient(env: Record<string, string>): Promise<Client> {
+  const client = new Client({ name: 'offx-tests', version: '0.0.0' });
+  await client.connect(new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_ENTRY],
+    cwd: os.tmpdir(),
+    env,
+    stderr: 'ignore'
+  }));
+  return client;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Headers;
+  text: string;
+  /** The body parsed as JSON, or the text when it is not JSON */
+  body: any;
+}
+
+/**
+ * POSTs a JSON body (or raw text) to the HTTP server under test
+ */
+export async function post(url: string, body?: unknown, headers: Record<string, string> = {}): Promise<HttpResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body ?? {})
+  });
+  const text = await response.text();
+  return { status: response.status, headers: response.headers, text, body: parseResult(text) };
+}
+
+/**
+ * Parses a tool result: JSON results as objects, formatted output as text
+ */
+export function parseResult(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Starts a plain HTTP server for a test, e.g. an OFFX API with scripted
+ * failures. Resolves with its base URL and a function closing it.
+ */
+export async function startHttpStub(handler: http.RequestListener): Promise<{ baseUrl: string, close: () => Promise<void> }> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  return {
+    baseUrl: `http://localhost:${(server.address() as net.AddressInfo).port}`,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { HttpServer, OffxStandIn, post, serverEnv, startHttpServer, startOffxStandIn } from "./helpers.js";
+import { assertNoToken, ERROR_CASES, TOOL_CASES } from "./tool-cases.js";
+
+const HTTP_STATUS = { invalid_argument: 400, ambiguous_name: 409, error: 400 };
+
+describe('HTTP mode', () => {
+  let standIn: OffxStandIn;
+  let server: HttpServer;
+
+  before(async () => {
+    standIn = await startOffxStandIn();
+    server = await startHttpServer(serverEnv(standIn));
+  });
+
+  after(async () => {
+    await server?.stop();
+    await standIn?.close();
+  });
+
+  it('answers the health check', async () => {
+    const response = await fetch(`${server.url}/health`);
+    assert.deepEqual(await response.json(), { status: 'ok' });
+  });
+
+  it('lists every tool with a test case', async () => {
+    const { status, body } = await post(`${server.url}/list_tools`);
+    assert.equal(status, 200);
+    const tested = new Set(TOOL_CASES.map(testCase => testCase.tool));
+    assert.deepEqual(body.tools.map((tool: any) => tool.name).filter((name: string) => !tested.has(name)), []);
+  });
+
+  describe('tools', () => {
+    TOOL_CASES.forEach(testCase => {
+      it(testCase.name, async () => {
+        const { status, text, body } = await post(`${server.url}/${testCase.tool}`, testCase.args);
+        assert.equal(status, 200, text);
+        testCase.check(body);
+      });
+    });
+  });
+
+  describe('errors', () => {
+    ERROR_CASES.forEach(testCase => {
+      it(testCase.name, async () => {
+        const { status, text, body } = await post(`${server.url}/${testCase.tool}`, testCase.args);
+        assert.equal(status, HTTP_STATUS[testCase.kind], text);
+        assert.equal(body.code, status);
+        assert.match(body.error, testCase.message);
+        if (testCase.field) assert.equal(body.field, testCase.field);
+        if (testCase.kind === 'ambiguous_name') assert.equal(body.candidates.length, 2);
+        assertNoToken(text);
+      });
+    });
+
+    it('answers unknown tools with 404', async () => {
+      const { status, body } = await post(`${server.url}/no_such_tool`, {});
+      assert.equal(status, 404);
+      assert.equal(body.error, 'Not found');
+    });
+
+    it('rejects a body that is not JSON', async () => {
+      const { status } = await post(`${server.url}/get_score`, '{not json');
+      assert.equal(status, 400);
+    });
+  });
+
+  it('formats records as CSV when asked through the Accept header', async () => {
+    const { status, headers, text } = await post(`${server.url}/get_adverse_events`, { drug_id: '140448' }, { Accept: 'text/csv' });
+    assert.equal(status, 200);
+    assert.match(headers.get('content-type') || '', /^text\/csv/);
+    assert.deepEqual(text.split('\r\n').slice(0, 2), ['adverse_event_id,adverse_event', '10028813,Nausea']);
+  });
+});
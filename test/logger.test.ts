@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { createLogger, LoggerOptions } from "../logger.js";
+import { registerSecret } from "../util.js";
+import { OffxStandIn, post, SERVER_ENTRY, serverEnv, startHttpServer, startOffxStandIn } from "./helpers.js";
+
+// Lines a logger writes to a temporary file
+async function logLines(options: Omit<LoggerOptions, 'file'>, write: (logger: ReturnType<typeof createLogger>) => void) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'offx-log-'));
+  try {
+    const file = path.join(dir, 'server.log');
+    write(createLogger({ ...options, file }));
+    return (await fs.readFile(file, 'utf8')).split('\n').filter(line => line);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe('createLogger', () => {
+  it('drops messages below the level', async () => {
+    const lines = await logLines({ level: 'warn', format: 'text' }, logger => {
+      logger.debug('debug message');
+      logger.info('info message');
+      logger.warn('warn message');
+      logger.error('error message');
+    });
+    assert.equal(lines.length, 2);
+    assert.match(lines[0], /^\[\d{4}-\d{2}-\d{2}T[\d:.]+Z\] WARN: warn message$/);
+    assert.match(lines[1], /ERROR: error message$/);
+  });
+
+  it('appends metadata to text lines', async () => {
+    const [line] = await logLines({ level: 'info', format: 'text' }, logger => logger.info('Tool call', { tool: 'get_score' }));
+    assert.match(line, /INFO: Tool call \| \{"tool":"get_score"\}$/);
+  });
+
+  it('writes JSON lines with the metadata as fields', async () => {
+    const [line] = await logLines({ level: 'debug', format: 'json' }, logger => {
+      logger.debug('OFFX request', { request_id: 'r1', endpoint: '/api/drug/search/param', status: 200, latency_ms: 12 });
+    });
+    const entry = JSON.parse(line);
+    assert.equal(typeof entry.time, 'string');
+    assert.deepEqual({ ...entry, time: undefined }, {
+      time: undefined,
+      level: 'debug',
+      message: 'OFFX request',
+      request_id: 'r1',
+      endpoint: '/api/drug/search/param',
+      status: 200,
+      latency_ms: 12
+    });
+  });
+
+  it('redacts registered secrets', async () => {
+    registerSecret('logger-secret-0123456789');
+    const [line] = await logLines({ level: 'info', format: 'json' }, logger => {
+      logger.info('Request failed', { error: 'token logger-secret-0123456789 rejected' });
+    });
+    assert.equal(JSON.parse(line).error, 'token [REDACTED] rejected');
+  });
+});
+
+describe('server logs', () => {
+  let standIn: OffxStandIn;
+
+  before(async () => {
+    standIn = await startOffxStandIn();
+  });
+
+  after(() => standIn?.close());
+
+  it('logs tool calls and OFFX requests as JSON lines with the request ID', async () => {
+    const server = await startHttpServer(serverEnv(standIn, { LOG_LEVEL: 'info', LOG_FORMAT: 'json' }));
+    try {
+      const ok = await post(`${server.url}/get_score`, { drug_id: '140448' }, { 'X-Request-Id': 'req-1' });
+      assert.equal(ok.headers.get('x-request-id'), 'req-1');
+      const failed = await post(`${server.url}/get_score`, { drug_id: '404404' });
+      const generatedId = failed.headers.get('x-request-id');
+      assert.match(generatedId || '', /^[0-9a-f-]{36}$/);
+
+      const lines = server.stderr().split('\n').filter(line => line).map(line => JSON.parse(line));
+      const forRequest = (id: string | null) => lines.filter(line => line.request_id === id);
+      const [request, call] = forRequest('req-1');
+      assert.equal(request.message, 'OFFX request');
+      assert.equal(request.level, 'info');
+      assert.equal(request.tool, 'get_score');
+      assert.equal(request.endpoint, '/api/score/drug/search/param');
+      assert.equal(request.status, 200);
+      assert.equal(typeof request.latency_ms, 'number');
+      assert.equal(call.message, 'Tool call');
+      assert.equal(call.status, 'ok');
+      assert.equal(typeof call.latency_ms, 'number');
+
+      const [failedRequest, failedCall] = forRequest(generatedId);
+      assert.equal(failedRequest.level, 'warn');
+      assert.equal(failedRequest.status, 404);
+      assert.equal(failedCall.level, 'error');
+      assert.equal(failedCall.status, 'error');
+      assert.match(failedCall.error, /Request failed with status 404/);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  it('writes only JSON-RPC messages to stdout in stdio mode', async () => {
+    const child = spawn(process.execPath, [SERVER_ENTRY], { cwd: os.tmpdir(), env: serverEnv(standIn, { LOG_LEVEL: 'debug' }) });
+    let stdout = '';
+    let stderr = '';
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    const exited = new Promise(resolve => child.once('exit', resolve));
+    try {
+      const answered = new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`No tool call response; stdout: ${stdout}`)), 10_000);
+        child.stdout.on('data', chunk => {
+          stdout += chunk;
+          if (stdout.includes('"id":2')) {
+            clearTimeout(timer);
+            resolve();
+          }
+        });
+      });
+      [
+        { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'offx-tests', version: '0.0.0' } } },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'get_score', arguments: { drug_id: '140448' } } }
+      ].forEach(message => child.stdin.write(JSON.stringify(message) + '\n'));
+      await answered;
+      stdout.split('\n').filter(line => line).forEach(line => assert.equal(JSON.parse(line).jsonrpc, '2.0'));
+      assert.match(stderr, /OFFX MCP Server running in MCP stdio mode/);
+      assert.match(stderr, /INFO: OFFX request \| \{"request_id":"[0-9a-f-]{36}","tool":"get_score","endpoint":"\/api\/score\/drug\/search\/param","status":200,/);
+    } finally {
+      child.kill();
+      await exited;
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { spawnSync } from 'child_process';
+import http from 'http';
+import net from 'net';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { startMcpHttpServer } from "../mcp-transport.js";
+import { HttpServer, OffxStandIn, parseResult, SERVER_ENTRY, serverEnv, startOffxStandIn, startSseServer, TEST_TOKEN } from "./helpers.js";
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'offx-tests', version: '0.0.0' } }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('network MCP transport', () => {
+  let server: http.Server;
+  let url: string;
+  const streams: AbortController[] = [];
+
+  const sessions = async () => (await (await fetch(`${url}/health`)).json()).sessions;
+
+  before(async () => {
+    server = startMcpHttpServer({
+      port: 0,
+      path: '/mcp',
+      sessionTimeoutMs: 100,
+      createServer: () => new Server({ name: 'test', version: '0.0.0' }, { capabilities: {} }),
+      logger: { info: () => undefined, error: () => undefined }
+    });
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://localhost:${(server.address() as net.AddressInfo).port}`;
+  });
+
+  after(async () => {
+    streams.forEach(stream => stream.abort());
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('answers a body that is not JSON with a JSON-RPC parse error', async () => {
+    const response = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: '{"jsonrpc":'
+    });
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { jsonrpc: '2.0', error: { code: -32700, message: 'Parse error: invalid JSON' }, id: null });
+  });
+
+  it('closes idle sessions but keeps sessions with an open stream', async () => {
+    // A legacy SSE session whose stream stays open without any messages
+    const sse = new AbortController();
+    streams.push(sse);
+    const stream = await fetch(`${url}/mcp/sse`, { signal: sse.signal });
+    assert.equal(stream.status, 200);
+
+    // A Streamable HTTP session that goes quiet after initializing
+    const initialized = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify(INITIALIZE)
+    });
+    assert.equal(initialized.status, 200);
+    assert.ok(initialized.headers.get('mcp-session-id'));
+    await initialized.text();
+    assert.equal(await sessions(), 2);
+
+    // Sessions are swept once a second at most
+    await sleep(1300);
+    assert.equal(await sessions(), 1);
+    sse.abort();
+    await sleep(50);
+    assert.equal(await sessions(), 0);
+  });
+});
+
+describe('MCP network mode (TRANSPORT=sse)', () => {
+  let standIn: OffxStandIn;
+  let server: HttpServer;
+
+  before(async () => {
+    standIn = await startOffxStandIn();
+    server = await startSseServer(serverEnv(standIn));
+  });
+
+  after(async () => {
+    await server?.stop();
+    await standIn?.close();
+  });
+
+  const transports: [string, () => Transport][] = [
+    ['Streamable HTTP', () => new StreamableHTTPClientTransport(new URL(`${server.url}/mcp`))],
+    ['legacy SSE', () => new SSEClientTransport(new URL(`${server.url}/mcp/sse`))]
+  ];
+
+  it('refuses to start with an MCP_SESSION_TIMEOUT_MS that is not a positive integer', () => {
+    for (const timeout of ['0', '-5', 'soon', '1.5']) {
+      const result = spawnSync(process.execPath, [SERVER_ENTRY], {
+        env: { PATH: process.env.PATH || '', OFFX_API_TOKEN: TEST_TOKEN, TRANSPORT: 'sse', PORT: '0', MCP_SESSION_TIMEOUT_MS: timeout },
+        encoding: 'utf8',
+        timeout: 10_000
+      });
+      assert.equal(result.status, 1, timeout);
+      assert.match(result.stderr, /Invalid MCP_SESSION_TIMEOUT_MS: .* \(expected a positive integer\)/);
+    }
+  });
+
+  transports.forEach(([name, transport]) => {
+    it(`lists and calls tools over ${name}`, async () => {
+      const client = new Client({ name: 'offx-tests', version: '0.0.0' });
+      await client.connect(transport());
+      try {
+        const { tools } = await client.listTools();
+        assert.ok(tools.some(tool => tool.name === 'get_score'));
+        const result: any = await client.callTool({ name: 'get_score', arguments: { drug_id: '140448' } });
+        assert.equal(result.isError, false, result.content[0].text);
+        assert.deepEqual(parseResult(result.content[0].text), { drug_id: '140448', score: 0.62 });
+      } finally {
+        await client.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { OffxStandIn, parseResult, serverEnv, startMcpClient, startOffxStandIn } from "./helpers.js";
+import { assertNoToken, ERROR_CASES, TOOL_CASES } from "./tool-cases.js";
+
+const MCP_ERROR_CODE = { invalid_argument: ErrorCode.InvalidParams, error: ErrorCode.InternalError };
+
+// Text of the first content item of a tool result
+const resultText = (result: any): string => result.content[0].text;
+
+describe('MCP stdio mode', () => {
+  let standIn: OffxStandIn;
+  let client: Client;
+
+  before(async () => {
+    standIn = await startOffxStandIn();
+    client = await startMcpClient(serverEnv(standIn));
+  });
+
+  after(async () => {
+    await client?.close();
+    await standIn?.close();
+  });
+
+  it('lists every tool with a test case', async () => {
+    const { tools } = await client.listTools();
+    const tested = new Set(TOOL_CASES.map(testCase => testCase.tool));
+    assert.deepEqual(tools.map(tool => tool.name).filter(name => !tested.has(name)), []);
+  });
+
+  describe('tools', () => {
+    TOOL_CASES.forEach(testCase => {
+      it(testCase.name, async () => {
+        const result = await client.callTool({ name: testCase.tool, arguments: testCase.args });
+        assert.equal(result.isError, false, resultText(result));
+        testCase.check(parseResult(resultText(result)));
+      });
+    });
+  });
+
+  describe('errors', () => {
+    ERROR_CASES.forEach(testCase => {
+      it(testCase.name, async () => {
+        if (testCase.kind === 'ambiguous_name') {
+          const result = await client.callTool({ name: testCase.tool, arguments: testCase.args });
+          assert.equal(result.isError, true);
+          const body = JSON.parse(resultText(result));
+          assert.match(body.error, testCase.message);
+          assert.equal(body.field, testCase.field);
+          assert.equal(body.candidates.length, 2);
+          return;
+        }
+        const code = MCP_ERROR_CODE[testCase.kind];
+        await assert.rejects(client.callTool({ name: testCase.tool, arguments: testCase.args }), (error: unknown) => {
+          assert.ok(error instanceof McpError);
+          assert.equal(error.code, code);
+          assert.match(error.message, testCase.message);
+          assertNoToken(error.message);
+          return true;
+        });
+      });
+    });
+
+    it('rejects unknown tools as invalid params', async () => {
+      await assert.rejects(client.callTool({ name: 'no_such_tool', arguments: {} }), (error: unknown) => {
+        assert.ok(error instanceof McpError);
+        assert.equal(error.code, ErrorCode.InvalidParams);
+        assert.match(error.message, /Unknown tool: no_such_tool/);
+        return true;
+      });
+    });
+  });
+
+  it('reads a drug resource', async () => {
+    const { contents } = await client.readResource({ uri: 'offx://drug/140448' });
+    assert.equal(JSON.parse(contents[0].text as string).drug.drug_id, '140448');
+  });
+
+  it('renders a prompt', async () => {
+    const { messages } = await client.getPrompt({ name: 'assess_drug_safety', arguments: { drug: 'semaglutide' } });
+    assert.match(messages[0].content.text as string, /Call get_drug with \{ "drug_name": "semaglutide"/);
+  });
+
+  it('renders a prompt whose first call succeeds', async () => {
+    const { messages } = await client.getPrompt({ name: 'assess_drug_safety', arguments: { drug: 'semaglutide' } });
+    const call = /Call get_drug with (\{.*?\}) to identify the drug/.exec(messages[0].content.text as string);
+    assert.ok(call);
+    const result = await client.callTool({ name: 'get_drug', arguments: JSON.parse(call[1]) });
+    assert.equal(result.isError, false, resultText(result));
+    assert.equal(parseResult(resultText(result)).drug.drug_id, '140448');
+  });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { createMetricsRegistry } from "../metrics.js";
+import { HttpServer, OffxStandIn, post, serverEnv, startHttpServer, startOffxStandIn } from "./helpers.js";
+
+describe('createMetricsRegistry', () => {
+  it('renders counters and gauges with their labels', () => {
+    const metrics = createMetricsRegistry();
+    const calls = metrics.counter('calls_total', 'Calls');
+    const inFlight = metrics.gauge('in_flight', 'Requests in flight');
+    calls.inc({ tool: 'get_score', status: 'ok' });
+    calls.inc({ status: 'ok', tool: 'get_score' });
+    calls.inc({ tool: 'get_score', status: 'error' }, 3);
+    inFlight.inc();
+    inFlight.inc();
+    inFlight.dec();
+    assert.equal(metrics.render(), [
+      '# HELP calls_total Calls',
+      '# TYPE calls_total counter',
+      'calls_total{tool="get_score",status="ok"} 2',
+      'calls_total{tool="get_score",status="error"} 3',
+      '# HELP in_flight Requests in flight',
+      '# TYPE in_flight gauge',
+      'in_flight 1',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders cumulative histogram buckets with sum and count', () => {
+    const metrics = createMetricsRegistry();
+    const latency = metrics.histogram('latency_seconds', 'Latency', [0.1, 1]);
+    [0.05, 0.5, 0.5, 2].forEach(value => latency.observe(value, { endpoint: '/api/drug/search/param' }));
+    assert.deepEqual(metrics.render().split('\n').slice(2, 7), [
+      'latency_seconds_bucket{endpoint="/api/drug/search/param",le="0.1"} 1',
+      'latency_seconds_bucket{endpoint="/api/drug/search/param",le="1"} 3',
+      'latency_seconds_bucket{endpoint="/api/drug/search/param",le="+Inf"} 4',
+      'latency_seconds_sum{endpoint="/api/drug/search/param"} 3.05',
+      'latency_seconds_count{endpoint="/api/drug/search/param"} 4'
+    ]);
+  });
+
+  it('escapes label values', () => {
+    const metrics = createMetricsRegistry();
+    metrics.counter('calls_total', 'Calls').inc({ tool: 'a"b\\c\nd' });
+    assert.match(metrics.render(), /calls_total\{tool="a\\"b\\\\c\\nd"\} 1/);
+  });
+
+  it('includes collected metrics on every render', () => {
+    const metrics = createMetricsRegistry();
+    let entries = 1;
+    metrics.collect(() => [{ name: 'entries', help: 'Entries', type: 'gauge', samples: [{ labels: {}, value: entries }] }]);
+    assert.match(metrics.render(), /^entries 1$/m);
+    entries = 5;
+    assert.match(metrics.render(), /^entries 5$/m);
+  });
+});
+
+describe('GET /metrics', () => {
+  let standIn: OffxStandIn;
+  let server: HttpServer;
+
+  before(async () => {
+    standIn = await startOffxStandIn();
+    server = await startHttpServer(serverEnv(standIn));
+  });
+
+  after(async () => {
+    await server?.stop();
+    await standIn?.close();
+  });
+
+  it('reports tool calls, upstream latency, cache use and in-flight requests', async () => {
+    await post(`${server.url}/get_score`, { drug_id: '140448' });
+    await post(`${server.url}/get_score`, { drug_id: '140448' });
+    await post(`${server.url}/get_score`, { drug_id: '404404' });
+    await post(`${server.url}/get_score`, {});
+
+    const response = await fetch(`${server.url}/metrics`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type') || '', /^text\/plain; version=0\.0\.4/);
+    const lines = (await response.text()).split('\n');
+    const has = (line: string) => assert.ok(lines.includes(line), `missing ${line}`);
+
+    has('# TYPE offx_mcp_tool_calls_total counter');
+    has('offx_mcp_tool_calls_total{tool="get_score",status="ok"} 2');
+    has('offx_mcp_tool_calls_total{tool="get_score",status="error"} 1');
+    has('offx_mcp_tool_calls_total{tool="get_score",status="invalid_argument"} 1');
+    has('# TYPE offx_mcp_upstream_request_duration_seconds histogram');
+    has('offx_mcp_upstream_request_duration_seconds_count{endpoint="/api/score/drug/search/param",status="200"} 1');
+    has('offx_mcp_upstream_request_duration_seconds_count{endpoint="/api/score/drug/search/param",status="404"} 1');
+    has('offx_mcp_cache_hits_total{category="score"} 1');
+    has('offx_mcp_cache_misses_total{category="score"} 2');
+    has('offx_mcp_http_requests_in_flight 0');
+  });
+});
@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { BUNDLED_FIXTURES_DIR, createFixtureStore } from "../fixtures.js";
+import { createOffxClient, OffxApiError, OffxClientOptions, parseRetryAfter } from "../offx-client.js";
+import { registerSecret } from "../util.js";
+import { startHttpStub } from "./helpers.js";
+
+const TOKEN = 'client-test-token-0123456789';
+
+// A stand-in OFFX API answering each request with the next scripted response
+interface ScriptedResponse {
+  status: number;
+  body: string;
+  headers?: Record<string, string>;
+  delayMs?: number;
+  /** Delay between sending the headers and the body */
+  bodyDelayMs?: number;
+}
+
+describe('OFFX client', () => {
+  let baseUrl: string;
+  let close: () => Promise<void>;
+  let script: ScriptedResponse[] = [];
+  let requests: { url: string, authorization?: string }[] = [];
+
+  const client = (options: Partial<OffxClientOptions> = {}) => createOffxClient({
+    baseUrl,
+    token: TOKEN,
+    authMode: 'query',
+    timeoutMs: 2000,
+    maxRetries: 2,
+    retryBaseDelayMs: 1,
+    retryMaxDelayMs: 5,
+    ...options
+  });
+
+  // Runs a request and returns the error it fails with
+  const failure = async (request: Promise<unknown>) => {
+    try {
+      await request;
+    } catch (error) {
+      assert.ok(error instanceof OffxApiError);
+      return error;
+    }
+    assert.fail('expected the request to fail');
+  };
+
+  before(async () => {
+    registerSecret(TOKEN);
+    ({ baseUrl, close } = await startHttpStub((req, res) => {
+      requests.push({ url: req.url || '', authorization: req.headers.authorization });
+      const next = script.shift() || { status: 200, body: '{}' };
+      setTimeout(() => {
+        res.writeHead(next.status, { 'Content-Type': 'application/json', ...next.headers });
+        res.flushHeaders();
+        setTimeout(() => res.end(next.body), next.bodyDelayMs || 0);
+      }, next.delayMs || 0);
+    }));
+  });
+
+  after(() => close());
+
+  const reset = (responses: ScriptedResponse[]) => {
+    script = responses;
+    requests = [];
+  };
+
+  it('sends the query without empty values and the token as a parameter', async () => {
+    reset([{ status: 200, body: '{"score":0.62}' }]);
+    assert.deepEqual(await client().get('/api/score/drug/search/param', { drug_id: '140448', adverse_event_id: '', page: undefined }), { score: 0.62 });
+    assert.equal(requests[0].url, `/api/score/drug/search/param?drug_id=140448&token=${TOKEN}`);
+  });
+
+  it('sends the token as a bearer header in header mode', async () => {
+    reset([{ status: 200, body: '{}' }]);
+    await client({ authMode: 'header' }).get('/api/drug/search/param', { drug: 'x' });
+    assert.equal(requests[0].url, '/api/drug/search/param?drug=x');
+    assert.equal(requests[0].authorization, `Bearer ${TOKEN}`);
+  });
+
+  it('retries 429 and 5xx responses', async () => {
+    reset([
+      { status: 503, body: 'busy' },
+      { status: 429, body: 'slow down', headers: { 'Retry-After': '0' } },
+      { status: 200, body: '{"ok":true}' }
+    ]);
+    assert.deepEqual(await client().get('/api/drug/search/param'), { ok: true });
+    assert.equal(requests.length, 3);
+  });
+
+  it('fails at once when Retry-After is longer than the maximum retry delay', async () => {
+    reset([{ status: 429, body: 'slow down', headers: { 'Retry-After': '3600' } }, { status: 200, body: '{}' }]);
+    const error = await failure(client().get('/api/drug/search/param'));
+    assert.equal(error.status, 429);
+    assert.equal(error.message, 'Request failed with status 429: slow down (Retry-After 3600s)');
+    assert.equal(requests.length, 1);
+  });
+
+  it('gives up after maxRetries with the last status', async () => {
+    reset([{ status: 500, body: 'a' }, { status: 502, body: 'b' }, { status: 504, body: 'c' }]);
+    const error = await failure(client().get('/api/drug/alerts/param'));
+    assert.equal(error.status, 504);
+    assert.equal(error.endpoint, '/api/drug/alerts/param');
+    assert.equal(error.message, 'Request failed with status 504: c');
+    assert.equal(requests.length, 3);
+  });
+
+  it('does not retry other errors', async () => {
+    reset([{ status: 404, body: 'Drug not found' }]);
+    const error = await failure(client().get('/api/score/drug/search/param', { drug_id: '1' }));
+    assert.equal(error.status, 404);
+    assert.equal(error.message, 'Request failed with status 404: Drug not found');
+    assert.equal(requests.length, 1);
+  });
+
+  it('redacts the token from error messages', async () => {
+    reset([{ status: 401, body: `Invalid token ${TOKEN}` }]);
+    const error = await failure(client().get('/api/drug/search/param'));
+    assert.equal(error.message, 'Request failed with status 401: Invalid token [REDACTED]');
+  });
+
+  it('times out slow responses', async () => {
+    reset([{ status: 200, body: '{}', delayMs: 500 }]);
+    const error = await failure(client({ timeoutMs: 50, maxRetries: 0 }).get('/api/drug/search/param'));
+    assert.equal(error.status, undefined);
+    assert.equal(error.message, 'Request timed out after 50ms');
+  });
+
+  it('times out responses whose body is slow to arrive', async () => {
+    reset([{ status: 200, body: '{}', bodyDelayMs: 500 }]);
+    const error = await failure(client({ timeoutMs: 50, maxRetries: 0 }).get('/api/drug/search/param'));
+    assert.equal(error.message, 'Request timed out after 50ms');
+  });
+
+  it('reports a response that is not JSON', async () => {
+    reset([{ status: 200, body: '<html>maintenance</html>' }]);
+    const error = await failure(client().get('/api/drug/search/param'));
+    assert.equal(error.status, 200);
+    assert.match(error.message, /^Invalid JSON in response: /);
+    assert.equal(requests.length, 1);
+  });
+
+  it('reports network failures without a status', async () => {
+    const error = await failure(client({ baseUrl: 'http://127.0.0.1:1', maxRetries: 0 }).get('/api/drug/search/param'));
+    assert.equal(error.status, undefined);
+    assert.match(error.message, /^Request failed: /);
+  });
+
+  it('serves recorded responses in replay mode without requests', async () => {
+    reset([]);
+    const replay = client({ mode: 'replay', fixtures: createFixtureStore(BUNDLED_FIXTURES_DIR) });
+    assert.deepEqual(await replay.get('/api/score/drug/search/param', { drug_id: '140448' }), { drug_id: '140448', score: 0.62 });
+    const error = await failure(replay.get('/api/score/drug/search/param', { drug_id: '1' }));
+    assert.equal(error.message, 'No recorded response for /api/score/drug/search/param?drug_id=1');
+    assert.equal(requests.length, 0);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    assert.equal(parseRetryAfter('2'), 2000);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', Date.parse('2026-01-01T00:00:00Z')), 10_000);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:00 GMT', Date.parse('2026-01-01T00:01:00Z')), 0);
+  });
+
+  it('ignores missing and invalid headers', () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter('soon'), undefined);
+  });
+});
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { collectPages } from "../pagination.js";
+
+// A masterview split over pages: the drug and adverse events repeat on every page, alerts do not
+const masterviewPages: Record<number, unknown> = {
+  1: { drug: { drug_id: 1, drug_other_names: ['A', 'B', 'C'] }, adverse_events: [{ id: 1 }], alerts: [{ alert_id: 1 }, { alert_id: 2 }] },
+  2: { drug: { drug_id: 1, drug_other_names: ['A', 'B', 'C'] }, adverse_events: [{ id: 1 }], alerts: [{ alert_id: 3 }] },
+  3: { drug: { drug_id: 1, drug_other_names: ['A', 'B', 'C'] }, adverse_events: [{ id: 1 }], alerts: [] }
+};
+
+const fetchMasterview = async (page: number) => masterviewPages[page] ?? masterviewPages[3];
+
+describe('collectPages', () => {
+  it('collects the records of every page and keeps the other fields of the first page', async () => {
+    const { result, pagination } = await collectPages(fetchMasterview, { startPage: 1, maxPages: 10, recordsField: 'alerts' });
+    assert.deepEqual(result, {
+      drug: { drug_id: 1, drug_other_names: ['A', 'B', 'C'] },
+      adverse_events: [{ id: 1 }],
+      alerts: [{ alert_id: 1 }, { alert_id: 2 }, { alert_id: 3 }]
+    });
+    assert.deepEqual(pagination, { first_page: 1, last_page: 2, pages_fetched: 3, items: 3, complete: true, truncated: false });
+  });
+
+  it('counts only records against max_items', async () => {
+    const { result, pagination } = await collectPages(fetchMasterview, { startPage: 1, maxPages: 10, maxItems: 2, recordsField: 'alerts' });
+    assert.deepEqual((result as any).alerts, [{ alert_id: 1 }, { alert_id: 2 }]);
+    assert.deepEqual((result as any).adverse_events, [{ id: 1 }]);
+    assert.equal(pagination.items, 2);
+    assert.equal(pagination.truncated, true);
+  });
+
+  it('stops when the API repeats the previous page', async () => {
+    const { pagination } = await collectPages(async () => ({ drugs: [{ drug_id: 1 }] }), { startPage: 1, maxPages: 5, recordsField: 'drugs' });
+    assert.equal(pagination.pages_fetched, 2);
+    assert.equal(pagination.complete, true);
+  });
+
+  it('reports truncation when max_pages stops the walk', async () => {
+    const { result, pagination } = await collectPages(async page => ({ drugs: [{ drug_id: page }] }), { startPage: 2, maxPages: 2, recordsField: 'drugs' });
+    assert.deepEqual(result, { drugs: [{ drug_id: 2 }, { drug_id: 3 }] });
+    assert.deepEqual(pagination, { first_page: 2, last_page: 3, pages_fetched: 2, items: 2, complete: false, truncated: true });
+  });
+});
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createResponseBudget } from "../response-budget.js";
+
+const MAX_CHARS = 1500;
+
+const record = (n: number) => ({ id: n, name: `Record ${n}`, phase: '4', tags: ['a', 'b'], source: { type: 'label', url: `https://example.org/${n}` } });
+
+// Follows the cursors of a truncated response and returns every slice
+function allSlices(tool: string, result: unknown): any[] {
+  const budget = createResponseBudget({ maxChars: MAX_CHARS, cursorTtlMs: 60_000, maxCursors: 10 });
+  const slices: any[] = [budget.limit(tool, result)];
+  while (slices[slices.length - 1].continuation) {
+    slices.push(budget.resume(tool, slices[slices.length - 1].continuation.cursor));
+  }
+  return slices;
+}
+
+describe('response budget', () => {
+  it('keeps slices of a nested list within the limit', () => {
+    const slices = allSlices('get_alerts', { page: { results: Array.from({ length: 40 }, (_, i) => record(i)) }, total: 40 });
+    assert.ok(slices.length > 1);
+    slices.forEach(slice => assert.ok(JSON.stringify(slice, null, 2).length <= MAX_CHARS, JSON.stringify(slice).slice(0, 100)));
+    assert.deepEqual(slices.flatMap(slice => slice.page.results.map((item: { id: number }) => item.id)), Array.from({ length: 40 }, (_, i) => i));
+    assert.ok(slices.every(slice => slice.total === 40));
+  });
+
+  it('keeps slices of a top-level list within the limit', () => {
+    const slices = allSlices('get_drugs', Array.from({ length: 40 }, (_, i) => record(i)));
+    assert.ok(slices.length > 1);
+    slices.forEach(slice => assert.ok(JSON.stringify(slice, null, 2).length <= MAX_CHARS));
+    assert.deepEqual(slices.flatMap(slice => (slice.items ?? slice).map((item: { id: number }) => item.id)), Array.from({ length: 40 }, (_, i) => i));
+  });
+});
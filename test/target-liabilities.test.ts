@@ -0,0 +1,14 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { rankTargetLiabilities, TargetLiability } from "../target-liabilities.js";
+
+const liability = (targetId: string, target?: string): TargetLiability =>
+  ({ target_id: targetId, target, action_id: '2', relation: 'primary', score: 0.5, adverse_event_count: 1, adverse_events: [] } as TargetLiability);
+
+describe('rankTargetLiabilities', () => {
+  it('orders ties without a target name by their target_id', () => {
+    // OFFX may leave out the name of a target
+    const ranked = rankTargetLiabilities([liability('1016', 'GLP1R'), liability('0042')]);
+    assert.deepEqual(ranked.map(entry => [entry.rank, entry.target_id]), [[1, '0042'], [2, '1016']]);
+  });
+});
@@ -0,0 +1,409 @@
+import assert from 'node:assert/strict';
+import { TEST_TOKEN } from "./helpers.js";
+
+/**
+ * A tool call against the bundled fixtures and a check of its result (parsed
+ * JSON, or the text of formatted output). Cases run in order, so the
+ * watchlist cases see the effects of the earlier ones.
+ */
+export interface ToolCase {
+  name: string;
+  tool: string;
+  args: Record<string, unknown>;
+  check: (result: any) => void;
+}
+
+const SEMAGLUTIDE = '140448';
+const LIRAGLUTIDE = '99001';
+const GLP1R = { target_id: '1016', action_id: '2' };
+const PANCREATITIS = '10033645';
+
+const ids = (items: any[], field: string) => items.map(item => item[field]);
+
+export const TOOL_CASES: ToolCase[] = [
+  {
+    name: 'search_drugs finds a drug by name',
+    tool: 'search_drugs',
+    args: { drug: 'semaglutide' },
+    check: result => assert.deepEqual(ids(result.drugs, 'drug_id'), [SEMAGLUTIDE])
+  },
+  {
+    name: 'get_drugs lists drugs acting on a target and action',
+    tool: 'get_drugs',
+    args: { ...GLP1R },
+    check: result => assert.deepEqual(ids(result.drugs, 'drug_id'), [SEMAGLUTIDE, LIRAGLUTIDE])
+  },
+  {
+    name: 'get_drugs lists drugs associated with an adverse event',
+    tool: 'get_drugs',
+    args: { adverse_event_id: PANCREATITIS },
+    check: result => assert.ok(ids(result.drugs, 'drug_id').includes(SEMAGLUTIDE))
+  },
+  {
+    name: 'get_alerts returns drug alerts with code labels',
+    tool: 'get_alerts',
+    args: { drug_id: SEMAGLUTIDE, page: 1 },
+    check: result => {
+      assert.equal(result.alerts.length, 6);
+      assert.equal(result.alerts[0].alert_phase_label, 'Phase III');
+    }
+  },
+  {
+    name: 'get_alerts returns target alerts for a target name',
+    tool: 'get_alerts',
+    args: { target_name: 'GLP1R', page: 1 },
+    check: result => assert.ok(result.alerts.length > 0 && result.alerts.every((alert: any) => alert.target_id === GLP1R.target_id))
+  },
+  {
+    name: 'get_score returns a drug score',
+    tool: 'get_score',
+    args: { drug_id: SEMAGLUTIDE },
+    check: result => assert.deepEqual(result, { drug_id: SEMAGLUTIDE, score: 0.62 })
+  },
+  {
+    name: 'get_score returns a target score',
+    tool: 'get_score',
+    args: { ...GLP1R },
+    check: result => assert.equal(result.score, 0.55)
+  },
+  {
+    name: 'search_adverse_events finds an adverse event by name',
+    tool: 'search_adverse_events',
+    args: { adverse_event: 'nausea' },
+    check: result => assert.deepEqual(result.adverse_events, [{ adverse_event_id: '10028813', adverse_event: 'Nausea' }])
+  },
+  {
+    name: 'get_adverse_events lists the adverse events of a drug',
+    tool: 'get_adverse_events',
+    args: { drug_id: SEMAGLUTIDE },
+    check: result => assert.equal(result.adverse_events.length, 5)
+  },
+  {
+    name: 'get_drug returns the drug masterview',
+    tool: 'get_drug',
+    args: { drug_id: SEMAGLUTIDE, page: 1 },
+    check: result => assert.equal(result.drug.drug_main_name, 'semaglutide')
+  },
+  {
+    name: 'search_targets finds a target by name',
+    tool: 'search_targets',
+    args: { target: 'GLP1R' },
+    check: result => assert.equal(result.targets[0].target_id, GLP1R.target_id)
+  },
+  {
+    name: 'get_target returns the target masterview',
+    tool: 'get_target',
+    args: { ...GLP1R, page: 1 },
+    check: result => assert.equal(result.target.target, 'GLP1R')
+  },
+  {
+    name: 'get_targets lists the primary targets of a drug',
+    tool: 'get_targets',
+    args: { drug_id: SEMAGLUTIDE, type: 'primary' },
+    check: result => assert.deepEqual(ids(result.primary_targets, 'target_id'), [GLP1R.target_id])
+  },
+  {
+    name: 'get_targets lists the targets of an adverse event',
+    tool: 'get_targets',
+    args: { adverse_event_id: PANCREATITIS },
+    check: result => assert.deepEqual(ids(result.targets, 'target_id'), [GLP1R.target_id])
+  },
+  {
+    name: 'compare_drugs compares adverse event profiles',
+    tool: 'compare_drugs',
+    args: { drug_ids: [SEMAGLUTIDE, LIRAGLUTIDE] },
+    check: result => {
+      assert.deepEqual(ids(result.drugs, 'drug_id'), [SEMAGLUTIDE, LIRAGLUTIDE]);
+      assert.ok(ids(result.shared_adverse_events, 'adverse_event_id').includes(PANCREATITIS));
+    }
+  },
+  {
+    name: 'get_drug_target_liabilities ranks target liabilities',
+    tool: 'get_drug_target_liabilities',
+    args: { drug_id: SEMAGLUTIDE },
+    check: result => {
+      assert.deepEqual(result.targets, { primary: 1, secondary: 0 });
+      assert.equal(result.liabilities[0].target_id, GLP1R.target_id);
+    }
+  },
+  {
+    name: 'alert_timeline buckets alerts by year',
+    tool: 'alert_timeline',
+    args: { drug_id: SEMAGLUTIDE, interval: 'year' },
+    check: result => {
+      assert.equal(result.total, 6);
+      assert.equal(result.buckets[0], '2017');
+    }
+  },
+  {
+    name: 'summarize_alerts counts alerts per facet',
+    tool: 'summarize_alerts',
+    args: { drug_id: SEMAGLUTIDE, facets: ['alert_severity'] },
+    check: result => {
+      assert.equal(result.total, 6);
+      assert.deepEqual(result.facets.alert_severity.values.map((value: any) => [value.value, value.count]), [['yes', 4], ['no', 2]]);
+    }
+  },
+  {
+    name: 'generate_drug_safety_report renders a markdown report',
+    tool: 'generate_drug_safety_report',
+    args: { drug_id: SEMAGLUTIDE },
+    check: result => {
+      assert.equal(typeof result, 'string');
+      assert.match(result, /^# Drug Safety Report: semaglutide/);
+    }
+  },
+  {
+    name: 'add_to_watchlist adds a drug',
+    tool: 'add_to_watchlist',
+    args: { watchlist: 'tests', drug_ids: [SEMAGLUTIDE] },
+    check: result => assert.deepEqual(result.items, [{ type: 'drug', drug_id: SEMAGLUTIDE }])
+  },
+  {
+    name: 'get_watchlists lists watched items',
+    tool: 'get_watchlists',
+    args: {},
+    check: result => assert.deepEqual(result.watchlists, [{ name: 'tests', items: [{ type: 'drug', drug_id: SEMAGLUTIDE }] }])
+  },
+  {
+    name: 'get_new_alerts records a baseline on the first check',
+    tool: 'get_new_alerts',
+    args: { watchlist: 'tests' },
+    check: result => {
+      assert.equal(result.items[0].first_check, true);
+      assert.deepEqual(result.alerts, []);
+    }
+  },
+  {
+    name: 'get_new_alerts reports nothing new on the next check',
+    tool: 'get_new_alerts',
+    args: { watchlist: 'tests' },
+    check: result => {
+      assert.equal(result.items[0].first_check, false);
+      assert.equal(result.new + result.changed + result.removed, 0);
+    }
+  },
+  {
+    name: 'remove_from_watchlist removes a drug',
+    tool: 'remove_from_watchlist',
+    args: { watchlist: 'tests', drug_ids: [SEMAGLUTIDE] },
+    check: result => assert.deepEqual(result.items, [])
+  },
+  {
+    name: 'get_cache_stats reports cache usage',
+    tool: 'get_cache_stats',
+    args: {},
+    check: result => {
+      assert.equal(result.enabled, true);
+      assert.ok(result.entries > 0);
+    }
+  },
+  {
+    name: 'clear_cache empties the cache',
+    tool: 'clear_cache',
+    args: {},
+    check: result => assert.ok(result.cleared > 0)
+  },
+  {
+    name: 'batch runs several calls and reports each result',
+    tool: 'batch',
+    args: { calls: [{ tool: 'get_score', arguments: { drug_id: SEMAGLUTIDE } }, { tool: 'get_score', arguments: {} }] },
+    check: result => {
+      assert.equal(result.succeeded, 1);
+      assert.equal(result.failed, 1);
+      assert.deepEqual(result.results[0].result, { drug_id: SEMAGLUTIDE, score: 0.62 });
+      assert.equal(result.results[1].error.type, 'invalid_argument');
+    }
+  },
+  {
+    name: 'batch reports an ID that is not a number as an invalid argument of that call',
+    tool: 'batch',
+    args: { calls: [{ tool: 'get_score', arguments: { drug_id: SEMAGLUTIDE } }, { tool: 'get_score', arguments: { drug_id: 'abc' } }] },
+    check: result => {
+      assert.equal(result.succeeded, 1);
+      assert.deepEqual(result.results[1], {
+        tool: 'get_score',
+        ok: false,
+        error: { type: 'invalid_argument', message: 'drug_id must be a number or a comma-separated list of numbers (e.g., 1,2,3)', field: 'drug_id' }
+      });
+    }
+  }
+];
+
+/**
+ * How a failed tool call is reported:
+ * - invalid_argument: InvalidArgumentError, HTTP 400 and MCP -32602
+ * - ambiguous_name: AmbiguousNameError, HTTP 409 and an MCP isError result
+ * - error: any other error, HTTP 400 and MCP -32603
+ */
+export type ErrorKind = 'invalid_argument' | 'ambiguous_name' | 'error';
+
+export interface ErrorCase {
+  name: string;
+  tool: string;
+  args: Record<string, unknown>;
+  kind: ErrorKind;
+  message: RegExp;
+  field?: string;
+}
+
+const INVALID_DRUGS_COMBINATION = /Invalid combination of arguments: provide exactly one of target_id \+ action_id/;
+
+export const ERROR_CASES: ErrorCase[] = [
+  // get_drugs: target_id and action_id together, or adverse_event_id alone
+  {
+    name: 'get_drugs rejects target_id with adverse_event_id',
+    tool: 'get_drugs',
+    args: { ...GLP1R, adverse_event_id: PANCREATITIS },
+    kind: 'invalid_argument',
+    message: INVALID_DRUGS_COMBINATION
+  },
+  {
+    name: 'get_drugs rejects target_id without action_id',
+    tool: 'get_drugs',
+    args: { target_id: GLP1R.target_id },
+    kind: 'invalid_argument',
+    message: INVALID_DRUGS_COMBINATION
+  },
+  {
+    name: 'get_drugs rejects a call without target or adverse event',
+    tool: 'get_drugs',
+    args: {},
+    kind: 'invalid_argument',
+    message: INVALID_DRUGS_COMBINATION
+  },
+  // get_score: drug_id alone, or target_id and action_id together
+  {
+    name: 'get_score rejects drug_id with target_id and action_id',
+    tool: 'get_score',
+    args: { drug_id: SEMAGLUTIDE, ...GLP1R },
+    kind: 'invalid_argument',
+    message: /You must provide either drug_id \(alone\), or both target_id and action_id \(together\)/,
+    field: 'target_id'
+  },
+  {
+    name: 'get_score rejects target_id without action_id',
+    tool: 'get_score',
+    args: { target_id: GLP1R.target_id },
+    kind: 'invalid_argument',
+    message: /Missing required arguments: provide one of drug_id, or drug_name, or target_id \+ action_id/
+  },
+  // get_alerts: exactly one of drug_id or target_id
+  {
+    name: 'get_alerts rejects drug_id with target_id',
+    tool: 'get_alerts',
+    args: { drug_id: SEMAGLUTIDE, target_id: GLP1R.target_id, page: 1 },
+    kind: 'invalid_argument',
+    message: /You must provide exactly one of: drug_id or target_id/,
+    field: 'target_id'
+  },
+  {
+    name: 'get_alerts rejects a call without drug or target',
+    tool: 'get_alerts',
+    args: { page: 1 },
+    kind: 'invalid_argument',
+    message: /Missing required arguments/
+  },
+  // get_targets: exactly one of drug_id or adverse_event_id
+  {
+    name: 'get_targets rejects drug_id with adverse_event_id',
+    tool: 'get_targets',
+    args: { drug_id: SEMAGLUTIDE, type: 'primary', adverse_event_id: PANCREATITIS },
+    kind: 'invalid_argument',
+    message: /You must provide exactly one of: drug_id or adverse_event_id/,
+    field: 'adverse_event_id'
+  },
+  {
+    name: 'get_targets rejects a call without drug or adverse event',
+    tool: 'get_targets',
+    args: {},
+    kind: 'invalid_argument',
+    message: /Missing required arguments/
+  },
+  // Argument validation
+  {
+    name: 'get_alerts rejects IDs that are not numbers',
+    tool: 'get_alerts',
+    args: { drug_id: '140448,x', page: 1 },
+    kind: 'invalid_argument',
+    message: /drug_id must be a number or a comma-separated list of numbers/,
+    field: 'drug_id'
+  },
+  {
+    name: 'get_score rejects a drug_id that is not a number',
+    tool: 'get_score',
+    args: { drug_id: 'abc' },
+    kind: 'invalid_argument',
+    message: /drug_id must be a number or a comma-separated list of numbers/,
+    field: 'drug_id'
+  },
+  {
+    name: 'get_alerts rejects an unknown enum value',
+    tool: 'get_alerts',
+    args: { drug_id: SEMAGLUTIDE, page: 1, alert_severity: 'maybe' },
+    kind: 'invalid_argument',
+    message: /alert_severity must be one of: yes, no/,
+    field: 'alert_severity'
+  },
+  {
+    name: 'get_alerts rejects a page that is not a number',
+    tool: 'get_alerts',
+    args: { drug_id: SEMAGLUTIDE, page: 'first' },
+    kind: 'invalid_argument',
+    message: /page must be a number/,
+    field: 'page'
+  },
+  {
+    name: 'get_score reports an ambiguous drug name with its candidates',
+    tool: 'get_score',
+    args: { drug_name: 'glutide' },
+    kind: 'ambiguous_name',
+    message: /drug_name "glutide" matches 2 entities/,
+    field: 'drug_name'
+  },
+  {
+    name: 'get_score rejects drug_id with drug_name',
+    tool: 'get_score',
+    args: { drug_id: SEMAGLUTIDE, drug_name: 'semaglutide' },
+    kind: 'invalid_argument',
+    message: /Provide either drug_id or drug_name, not both/,
+    field: 'drug_name'
+  },
+  {
+    name: 'get_score rejects a drug name without matches',
+    tool: 'get_score',
+    args: { drug_name: 'nodrug' },
+    kind: 'invalid_argument',
+    message: /No drug found matching "nodrug"/,
+    field: 'drug_name'
+  },
+  // Upstream errors
+  {
+    name: 'an OFFX 404 is reported with its status and body',
+    tool: 'get_score',
+    args: { drug_id: '404404' },
+    kind: 'error',
+    message: /Request failed with status 404: Drug 404404 not found/
+  },
+  {
+    name: 'a request OFFX has no answer for is reported as a 404',
+    tool: 'get_score',
+    args: { drug_id: '123' },
+    kind: 'error',
+    message: /Request failed with status 404: .*No fixture for \/api\/score\/drug\/search\/param\?drug_id=123/
+  },
+  {
+    name: 'an OFFX 500 is reported with the token redacted',
+    tool: 'get_alerts',
+    args: { drug_id: '500500', page: 1 },
+    kind: 'error',
+    message: /Request failed with status 500: Internal error while serving client \[REDACTED\]/
+  }
+];
+
+/**
+ * Checks that error text never contains the API token
+ */
+export function assertNoToken(text: string) {
+  assert.ok(!text.includes(TEST_TOKEN), `token leaked in: ${text}`);
+}
@@ -0,0 +1,198 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HttpServer, post, serverEnv, startHttpServer, startHttpStub } from "./helpers.js";
+
+const DRUG_ID = '700';
+const PAGES = 5;
+const ALERTS_PER_PAGE = 4;
+const TOTAL = PAGES * ALERTS_PER_PAGE;
+
+// Alert n of the stand-in drug; pages after the last one are empty
+const alert = (n: number) => ({
+  drug_id: DRUG_ID,
+  target_id: '1016',
+  action_id: '2',
+  adverse_event_id: String(10_000_000 + n),
+  adverse_event: `Event ${n}`,
+  alert_phase: '4',
+  alert_date: '2020-01-01'
+});
+
+/**
+ * An OFFX API serving alert pages of drug 700 and a score for drug 701 that
+ * changes on every request, counting the requests it gets
+ */
+async function startOffxStub() {
+  const requests: string[] = [];
+  const stub = await startHttpStub((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url.pathname);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    if (url.pathname === '/api/drug/alerts/param') {
+      const page = Number(url.searchParams.get('page'));
+      const alerts = page <= PAGES ? Array.from({ length: ALERTS_PER_PAGE }, (_, i) => alert((page - 1) * ALERTS_PER_PAGE + i + 1)) : [];
+      res.end(JSON.stringify({ alerts }));
+    } else {
+      res.end(JSON.stringify({ score: [{ drug_id: '701', score: requests.filter(request => request.startsWith('/api/score/')).length }] }));
+    }
+  });
+  return { ...stub, requests };
+}
+
+describe('tool options', () => {
+  let dir: string;
+  let stub: Awaited<ReturnType<typeof startOffxStub>>;
+  let server: HttpServer;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'offx-options-'));
+    stub = await startOffxStub();
+    server = await startHttpServer(serverEnv({ baseUrl: stub.baseUrl, dir, close: async () => undefined }));
+  });
+
+  after(async () => {
+    await server?.stop();
+    await stub?.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const alerts = (args: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    post(`${server.url}/get_alerts`, { drug_id: DRUG_ID, ...args }, headers);
+
+  describe('pagination', () => {
+    it('collects the alerts of every page with all_pages', async () => {
+      const { status, body } = await alerts({ all_pages: true, cache_mode: 'bypass' });
+      assert.equal(status, 200);
+      assert.deepEqual(body.alerts.map((record: { adverse_event: string }) => record.adverse_event),
+        Array.from({ length: TOTAL }, (_, i) => `Event ${i + 1}`));
+      assert.deepEqual(body.pagination, { first_page: 1, last_page: PAGES, pages_fetched: PAGES + 1, items: TOTAL, complete: true, truncated: false });
+    });
+
+    it('stops once max_items alerts are collected', async () => {
+      const { body } = await alerts({ max_items: 6, cache_mode: 'bypass' });
+      assert.equal(body.alerts.length, 6);
+      assert.deepEqual(body.pagination, { first_page: 1, last_page: 2, pages_fetched: 2, items: 6, complete: false, truncated: true });
+    });
+
+    it('starts at page and stops after max_pages', async () => {
+      const { body } = await alerts({ page: 2, max_pages: 1, cache_mode: 'bypass' });
+      assert.deepEqual(body.alerts.map((record: { adverse_event: string }) => record.adverse_event), ['Event 5', 'Event 6', 'Event 7', 'Event 8']);
+      assert.equal(body.pagination.truncated, true);
+    });
+  });
+
+  describe('fields', () => {
+    it('keeps only the listed paths and the pagination summary', async () => {
+      const { body } = await alerts({ all_pages: true, fields: ['alerts.adverse_event_id', 'alerts.alert_phase_label'] });
+      assert.equal(body.alerts.length, TOTAL);
+      assert.deepEqual(body.alerts[0], { adverse_event_id: '10000001', alert_phase_label: 'Postmarketing' });
+      assert.equal(body.pagination.items, TOTAL);
+    });
+
+    it('rejects an empty path segment', async () => {
+      const { status, body } = await alerts({ fields: ['alerts..adverse_event_id'] });
+      assert.equal(status, 400);
+      assert.equal(body.field, 'fields');
+    });
+  });
+
+  describe('format', () => {
+    const fields = ['alerts.adverse_event_id', 'alerts.adverse_event'];
+
+    it('renders records as TSV', async () => {
+      const { status, headers, text } = await alerts({ fields, format: 'tsv' });
+      assert.equal(status, 200);
+      assert.match(headers.get('content-type') || '', /^text\/tab-separated-values/);
+      assert.deepEqual(text.split('\n').slice(0, 3), ['adverse_event_id\tadverse_event', '10000001\tEvent 1', '10000002\tEvent 2']);
+    });
+
+    it('renders records as NDJSON when asked through the Accept header', async () => {
+      const { headers, text } = await alerts({ fields }, { Accept: 'application/x-ndjson' });
+      assert.match(headers.get('content-type') || '', /^application\/x-ndjson/);
+      assert.deepEqual(text.trim().split('\n').map(line => JSON.parse(line)).slice(0, 2), [
+        { adverse_event_id: '10000001', adverse_event: 'Event 1' },
+        { adverse_event_id: '10000002', adverse_event: 'Event 2' }
+      ]);
+    });
+
+    it('prefers the format argument over the Accept header', async () => {
+      const { headers, body } = await alerts({ fields, format: 'json' }, { Accept: 'text/csv' });
+      assert.match(headers.get('content-type') || '', /^application\/json/);
+      assert.equal(body.alerts.length, ALERTS_PER_PAGE);
+    });
+  });
+
+  describe('cache_mode', () => {
+    // The stand-in scores drug 701 with the number of score requests it got so far
+    const score = async (cacheMode?: string) =>
+      (await post(`${server.url}/get_score`, { drug_id: '701', ...(cacheMode ? { cache_mode: cacheMode } : {}) })).body.score[0].score;
+
+    it('serves cached responses by default, skips the cache with bypass and refetches with refresh', async () => {
+      assert.equal(await score(), 1);
+      assert.equal(await score('default'), 1);
+      assert.equal(await score('bypass'), 2);
+      // A bypassed response is not stored
+      assert.equal(await score(), 1);
+      assert.equal(await score('refresh'), 3);
+      assert.equal(await score(), 3);
+      assert.equal(stub.requests.filter(request => request.startsWith('/api/score/')).length, 3);
+    });
+  });
+});
+
+describe('response size limit', () => {
+  let dir: string;
+  let stub: Awaited<ReturnType<typeof startOffxStub>>;
+  let server: HttpServer;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'offx-budget-'));
+    stub = await startOffxStub();
+    server = await startHttpServer(serverEnv({ baseUrl: stub.baseUrl, dir, close: async () => undefined }, { OFFX_MAX_RESPONSE_CHARS: '1000' }));
+  });
+
+  after(async () => {
+    await server?.stop();
+    await stub?.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns JSON in slices of whole records that resume from their cursor', async () => {
+    let { body } = await post(`${server.url}/get_alerts`, { drug_id: DRUG_ID, all_pages: true });
+    const requests = stub.requests.length;
+    const collected = [...body.alerts];
+    assert.equal(body.pagination.items, TOTAL);
+    assert.equal(body.continuation.returned, body.alerts.length);
+    assert.equal(body.continuation.remaining, TOTAL - body.alerts.length);
+    while (body.continuation) {
+      assert.ok(JSON.stringify(body, null, 2).length <= 1000);
+      ({ body } = await post(`${server.url}/get_alerts`, { cursor: body.continuation.cursor }));
+      assert.equal(body.pagination.items, TOTAL);
+      collected.push(...body.alerts);
+    }
+    assert.deepEqual(collected.map(record => record.adverse_event), Array.from({ length: TOTAL }, (_, i) => `Event ${i + 1}`));
+    assert.equal(stub.requests.length, requests);
+  });
+
+  it('repeats the header row in CSV slices and returns the cursor in headers', async () => {
+    const first = await post(`${server.url}/get_alerts`, { drug_id: DRUG_ID, all_pages: true, format: 'csv' });
+    const cursor = first.headers.get('x-continuation-cursor');
+    assert.ok(cursor);
+    assert.ok(Number(first.headers.get('x-continuation-remaining')) > 0);
+    const next = await post(`${server.url}/get_alerts`, { cursor });
+    const header = first.text.split('\r\n')[0];
+    assert.equal(next.text.split('\r\n')[0], header);
+    assert.match(header, /^drug_id,/);
+  });
+
+  it('rejects a cursor of another tool', async () => {
+    const first = await post(`${server.url}/get_alerts`, { drug_id: DRUG_ID, all_pages: true });
+    const { status, body } = await post(`${server.url}/get_drugs`, { cursor: first.body.continuation.cursor });
+    assert.equal(status, 400);
+    assert.equal(body.field, 'cursor');
+    assert.match(body.error, /cursor belongs to get_alerts, not get_drugs/);
+  });
+});
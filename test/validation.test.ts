@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  InvalidArgumentError,
+  JsonSchema,
+  validateArguments,
+  validateCommaSeparatedNumbers,
+  validateNumber,
+  validateStringEnum
+} from "../schema-validation.js";
+
+describe('validateCommaSeparatedNumbers', () => {
+  it('accepts numbers, numeric strings and comma-separated lists', () => {
+    [42, '42', '1,2,3'].forEach(value => assert.doesNotThrow(() => validateCommaSeparatedNumbers(value, 'drug_id')));
+  });
+
+  it('accepts missing values', () => {
+    [undefined, null, ''].forEach(value => assert.doesNotThrow(() => validateCommaSeparatedNumbers(value, 'drug_id')));
+  });
+
+  it('rejects anything else', () => {
+    ['abc', '1,,2', '1, 2', '1,2,', '-1', '1.5', true, ['1']].forEach(value => {
+      assert.throws(() => validateCommaSeparatedNumbers(value, 'drug_id'), {
+        name: 'InvalidArgumentError',
+        message: 'drug_id must be a number or a comma-separated list of numbers (e.g., 1,2,3)',
+        field: 'drug_id'
+      });
+    });
+  });
+});
+
+describe('validateStringEnum', () => {
+  it('accepts allowed values and missing values', () => {
+    ['yes', 'no', undefined, null, ''].forEach(value => assert.doesNotThrow(() => validateStringEnum(value, 'alert_severity', ['yes', 'no'])));
+  });
+
+  it('rejects other values, including values of another type', () => {
+    ['maybe', 'YES', 1, true].forEach(value => {
+      assert.throws(() => validateStringEnum(value, 'alert_severity', ['yes', 'no']), { name: 'InvalidArgumentError', message: 'alert_severity must be one of: yes, no', field: 'alert_severity' });
+    });
+  });
+});
+
+describe('validateNumber', () => {
+  it('accepts numbers and missing values', () => {
+    [0, 3, 2.5, undefined, null].forEach(value => assert.doesNotThrow(() => validateNumber(value, 'page')));
+  });
+
+  it('rejects values that are not numbers', () => {
+    ['1', '', true, {}].forEach(value => {
+      assert.throws(() => validateNumber(value, 'page'), { name: 'InvalidArgumentError', message: 'page must be a number', field: 'page' });
+    });
+  });
+});
+
+describe('validateArguments', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      drug_id: { type: 'string' },
+      target_id: { type: 'string' },
+      action_id: { type: 'string' },
+      page: { type: 'number', default: 1 },
+      alert_phase: {
+        type: 'string',
+        enum: ['2', '7'],
+        enumDescriptions: { '2': 'Preclinical', '7': 'Phase II' },
+        format: 'comma separated'
+      }
+    },
+    anyOf: [
+      { required: ['drug_id'] },
+      { required: ['target_id', 'action_id'] }
+    ]
+  };
+
+  it('fills defaults and converts numbers given for strings', () => {
+    assert.deepEqual(validateArguments(schema, { drug_id: 140448 }), { drug_id: '140448', page: 1 });
+  });
+
+  it('maps enum labels to codes', () => {
+    assert.equal(validateArguments(schema, { drug_id: '1', alert_phase: 'phase ii,2' }).alert_phase, '7,2');
+  });
+
+  it('reports the offending field', () => {
+    assert.throws(() => validateArguments(schema, { drug_id: '1', page: '2' }), (error: unknown) => {
+      assert.ok(error instanceof InvalidArgumentError);
+      assert.equal(error.field, 'page');
+      assert.equal(error.message, 'page must be a number');
+      return true;
+    });
+    assert.throws(() => validateArguments(schema, { drug_id: '1', alert_phase: '9' }), {
+      message: 'alert_phase must be one of: 2, 7 (or their labels)'
+    });
+  });
+
+  it('lists the argument combinations when none is satisfied', () => {
+    assert.throws(() => validateArguments(schema, { target_id: '1016' }), {
+      name: 'InvalidArgumentError',
+      message: 'Missing required arguments: provide one of drug_id, or target_id + action_id'
+    });
+  });
+
+  it('rejects arguments that are not an object', () => {
+    assert.throws(() => validateArguments(schema, ['drug_id']), { message: 'Arguments must be an object' });
+  });
+});
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createWatchlistStore } from "../watchlist.js";
+
+describe('watchlist store', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'offx-watchlist-'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('discards a change that cannot be written', async () => {
+    const file = path.join(dir, 'watchlists.json');
+    const store = createWatchlistStore(file);
+    await store.update(watchlists => { watchlists.oncology = { items: [{ type: 'drug', drug_id: '101' }], snapshots: {} }; });
+
+    // A directory in place of the temporary file makes the next write fail
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.mkdir(temp);
+    await assert.rejects(store.update(watchlists => {
+      watchlists.oncology.items.push({ type: 'drug', drug_id: '102' });
+    }));
+    assert.deepEqual((await store.all()).oncology.items, [{ type: 'drug', drug_id: '101' }]);
+
+    await fs.rmdir(temp);
+    await store.update(watchlists => { watchlists.oncology.items.push({ type: 'drug', drug_id: '103' }); });
+    const saved = JSON.parse(await fs.readFile(file, 'utf8'));
+    assert.deepEqual(saved.watchlists.oncology.items.map((item: { drug_id: string }) => item.drug_id), ['101', '103']);
+    assert.deepEqual(await store.all(), saved.watchlists);
+  });
+});
@@ -95,4 +95,44 @@ export function flattenArraysInObject(input: any, inArray: boolean = false): any
     // For primitives, simply return the value.
     return input;
   }
-}
\ No newline at end of file
+}
+
+const REDACTED = '[REDACTED]';
+const secrets = new Set<string>();
+
+/**
+ * Registers a secret (e.g. an API token) that must never appear in errors or logs
+ */
+export function registerSecret(secret: string) {
+  if (!secret) return;
+  secrets.add(secret);
+  secrets.add(encodeURIComponent(secret));
+}
+
+/**
+ * Replaces registered secrets and any `token` query parameter in a string
+ */
+export function redactSecrets(text: string): string {
+  let result = text.replace(/([?&]token=)[^&\s"'#]*/gi, `$1${REDACTED}`);
+  secrets.forEach(secret => {
+    result = result.split(secret).join(REDACTED);
+  });
+  return result;
+}
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight,
+ * preserving the input order in the result
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
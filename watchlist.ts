@@ -0,0 +1,171 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * A watched drug, or a watched target/action pair
+ */
+export type WatchItem =
+  | { type: 'drug', drug_id: string }
+  | { type: 'target', target_id: string, action_id: string };
+
+/**
+ * Alerts of a watched item as last seen: content hashes keyed by alert identity
+ */
+export interface AlertSnapshot {
+  checked_at: string;
+  alerts: Record<string, string[]>;
+}
+
+export interface Watchlist {
+  items: WatchItem[];
+  /** Snapshots keyed by watchItemKey */
+  snapshots: Record<string, AlertSnapshot>;
+}
+
+export type AlertChange = 'new' | 'changed';
+
+export interface AlertDiff {
+  /** Alerts that appeared or changed, each with a `change` field */
+  alerts: any[];
+  new: number;
+  changed: number;
+  /** Alerts in the previous snapshot that are no longer reported */
+  removed: number;
+  snapshot: AlertSnapshot;
+}
+
+export interface WatchlistStore {
+  /** All watchlists, read from the file on first use */
+  all(): Promise<Record<string, Watchlist>>;
+  /**
+   * Applies a change to the watchlists and writes the file. Updates run one
+   * at a time so concurrent calls do not overwrite each other; a change that
+   * cannot be written is discarded.
+   */
+  update<T>(change: (watchlists: Record<string, Watchlist>) => T | Promise<T>): Promise<T>;
+}
+
+// Alert fields identifying an alert when OFFX gives no alert_id; other fields may change
+const ALERT_IDENTITY_FIELDS = ['drug_id', 'target_id', 'action_id', 'adverse_event_id', 'ref_source_type', 'alert_species', 'alert_date', 'alert_date_from'];
+
+// Fields added by this server rather than returned by OFFX
+const DERIVED_FIELD = /_label$/;
+
+const hash = (value: unknown) => createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+
+// JSON with sorted keys, so the same alert always hashes the same
+function stableValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stableValue);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.keys(value)
+    .filter(key => !DERIVED_FIELD.test(key))
+    .sort()
+    .map(key => [key, stableValue((value as Record<string, unknown>)[key])]));
+}
+
+/**
+ * Key of a watched item in snapshots, e.g. "drug:11204" or "target:158:15"
+ */
+export function watchItemKey(item: WatchItem): string {
+  return item.type === 'drug' ? `drug:${item.drug_id}` : `target:${item.target_id}:${item.action_id}`;
+}
+
+function alertIdentity(alert: any): string {
+  if (alert?.alert_id !== undefined && alert?.alert_id !== null) return `id:${alert.alert_id}`;
+  return hash(ALERT_IDENTITY_FIELDS.map(field => alert?.[field] ?? null));
+}
+
+/**
+ * Compares alerts with the previous snapshot of an item. An alert is new when
+ * its identity was not seen before and changed when the identity was seen
+ * with different content. When `complete` is false only part of the alerts
+ * were fetched, so nothing counts as removed and the previous snapshot is
+ * kept for alerts not fetched this time.
+ */
+export function diffAlerts(previous: AlertSnapshot | undefined, alerts: any[], checkedAt: Date, complete = true): AlertDiff {
+  const current: Record<string, string[]> = {};
+  const changes: any[] = [];
+  let added = 0;
+  let changed = 0;
+  alerts.forEach(alert => {
+    const identity = alertIdentity(alert);
+    const content = hash(stableValue(alert));
+    current[identity] = [...(current[identity] || []), content];
+    const seen = previous?.alerts[identity];
+    if (seen?.includes(content)) return;
+    const change: AlertChange = seen ? 'changed' : 'new';
+    if (change === 'new') added++;
+    else changed++;
+    changes.push({ change, ...alert });
+  });
+  const removed = complete && previous
+    ? Object.entries(previous.alerts)
+      .filter(([identity]) => !current[identity])
+      .reduce((count, [, contents]) => count + contents.length, 0)
+    : 0;
+  return {
+    alerts: changes,
+    new: added,
+    changed,
+    removed,
+    snapshot: {
+      checked_at: checkedAt.toISOString(),
+      alerts: complete ? current : { ...previous?.alerts, ...current }
+    }
+  };
+}
+
+/**
+ * Creates the store for watchlists kept in a local JSON file. A missing file
+ * is treated as no watchlists; the file is written atomically on every update.
+ */
+export function createWatchlistStore(file: string): WatchlistStore {
+  let loaded: Promise<Record<string, Watchlist>> | undefined;
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<Record<string, Watchlist>> => {
+    try {
+      const data = JSON.parse(await fs.readFile(file, 'utf8'));
+      if (!data || typeof data !== 'object' || !data.watchlists || typeof data.watchlists !== 'object') {
+        throw new Error('expected an object with a "watchlists" property');
+      }
+      return data.watchlists;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw new Error(`Cannot read watchlist file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const save = async (watchlists: Record<string, Watchlist>) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify({ watchlists }, null, 2));
+    await fs.rename(temp, file);
+  };
+
+  const all = () => {
+    if (!loaded) {
+      loaded = load();
+      // Retry reading the file on the next call after a failure
+      loaded.catch(() => { loaded = undefined; });
+    }
+    return loaded;
+  };
+
+  return {
+    all,
+    update(change) {
+      const run = pending.then(async () => {
+        // Change a copy, so the watchlists in memory stay as saved when the write fails
+        const watchlists: Record<string, Watchlist> = JSON.parse(JSON.stringify(await all()));
+        const result = await change(watchlists);
+        await save(watchlists);
+        loaded = Promise.resolve(watchlists);
+        return result;
+      });
+      pending = run.catch(() => undefined);
+      return run;
+    }
+  };
+}